@@ -0,0 +1,89 @@
+import Button from "../Button";
+import Checkbox from "../Checkbox";
+import NumberInput from "../NumberInput";
+import { AlignCommand, DistributeAxis, SnapOptions } from "../Paint/func";
+
+const ALIGN_COMMANDS: { [command in AlignCommand]: string } = {
+  LEFT: "Left",
+  CENTER: "Center",
+  RIGHT: "Right",
+  TOP: "Top",
+  MIDDLE: "Middle",
+  BOTTOM: "Bottom",
+};
+
+const ArrangeControls = ({
+  snapOptions,
+  selectedCount = 0,
+  onSnapOptionsChange,
+  onAlign,
+  onDistribute,
+}: {
+  snapOptions: SnapOptions;
+  /** Number of selected shapes that can be moved. */
+  selectedCount?: number;
+  onSnapOptionsChange?: (changes: Partial<SnapOptions>) => void;
+  onAlign?: (command: AlignCommand) => void;
+  onDistribute?: (axis: DistributeAxis) => void;
+}) => {
+  const handleGridChange = () => {
+    onSnapOptionsChange?.({ grid: !snapOptions.grid });
+  };
+
+  const handleGridSizeChange = (gridSize: number) => {
+    onSnapOptionsChange?.({ gridSize });
+  };
+
+  const handleObjectsChange = () => {
+    onSnapOptionsChange?.({ objects: !snapOptions.objects });
+  };
+
+  return (
+    <div className="flex flex-col gap-y-2">
+      <div className="flex items-center gap-x-2">
+        <span>Snap to grid:</span>
+        <Checkbox checked={snapOptions.grid} onChange={handleGridChange} />
+        <NumberInput
+          className="w-16"
+          min={1}
+          value={snapOptions.gridSize}
+          onChange={handleGridSizeChange}
+        />
+        <span>Snap to shapes:</span>
+        <Checkbox
+          checked={snapOptions.objects}
+          onChange={handleObjectsChange}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Align:</span>
+        {(Object.keys(ALIGN_COMMANDS) as AlignCommand[]).map((command) => (
+          <Button
+            key={command}
+            disabled={selectedCount < 2}
+            onClick={() => onAlign?.(command)}
+          >
+            {ALIGN_COMMANDS[command]}
+          </Button>
+        ))}
+      </div>
+      <div className="flex items-center gap-x-2">
+        <span>Distribute:</span>
+        <Button
+          disabled={selectedCount < 3}
+          onClick={() => onDistribute?.("HORIZONTAL")}
+        >
+          Horizontally
+        </Button>
+        <Button
+          disabled={selectedCount < 3}
+          onClick={() => onDistribute?.("VERTICAL")}
+        >
+          Vertically
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ArrangeControls;
@@ -0,0 +1,90 @@
+import { ChangeEventHandler } from "react";
+
+import Button from "../Button";
+import ImageAdjustmentControls from "../ImageAdjustmentControls";
+import NumberInput from "../NumberInput";
+import {
+  BackgroundImage,
+  ImageAdjustments,
+  ImagePlacement,
+  Size,
+} from "../Paint";
+
+const PLACEMENTS: { [placement in ImagePlacement]: string } = {
+  FIT: "Fit",
+  FILL: "Fill",
+  ACTUAL: "Actual size",
+};
+
+const BackgroundPanel = ({
+  background,
+  image,
+  onChange,
+}: {
+  background: BackgroundImage;
+  /** The background image, if there is one. */
+  image?: Size;
+  onChange?: (changes: Partial<BackgroundImage>) => void;
+}) => {
+  if (!image) {
+    return (
+      <div className="w-72 p-2 border border-gray-300 text-gray-500">
+        Upload an image to use it as the background.
+      </div>
+    );
+  }
+
+  const handlePlacementChange: ChangeEventHandler<HTMLSelectElement> = (e) => {
+    onChange?.({ placement: e.target.value as ImagePlacement });
+  };
+
+  const handleRotationChange = (rotation: number) => {
+    onChange?.({ rotation });
+  };
+
+  const handleRotateClick = () => {
+    onChange?.({ rotation: (background.rotation + 90) % 360 });
+  };
+
+  const handleAdjustmentsChange = (changes: Partial<ImageAdjustments>) => {
+    onChange?.(changes);
+  };
+
+  return (
+    <div className="w-72 p-2 border border-gray-300 flex flex-col gap-y-2">
+      <span className="font-bold">Background</span>
+      <label className="flex items-center justify-between gap-x-2">
+        <span>Placement:</span>
+        <select
+          className="w-40 border border-gray-500"
+          value={background.placement}
+          onChange={handlePlacementChange}
+        >
+          {(Object.keys(PLACEMENTS) as ImagePlacement[]).map((placement) => (
+            <option key={placement} value={placement}>
+              {PLACEMENTS[placement]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex items-center gap-x-2">
+        <span>Rotation:</span>
+        <NumberInput
+          className="w-16"
+          min={-360}
+          max={360}
+          value={background.rotation}
+          onChange={handleRotationChange}
+        />
+        <Button onClick={handleRotateClick}>Rotate 90°</Button>
+      </div>
+      <ImageAdjustmentControls
+        adjustments={background}
+        image={image}
+        onChange={handleAdjustmentsChange}
+      />
+    </div>
+  );
+};
+
+export default BackgroundPanel;
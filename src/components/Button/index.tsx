@@ -1,10 +1,10 @@
-import { HTMLAttributes } from "react";
+import { ButtonHTMLAttributes } from "react";
 
-const Button = (props: HTMLAttributes<HTMLButtonElement>) => {
+const Button = (props: ButtonHTMLAttributes<HTMLButtonElement>) => {
   return (
     <button
       type="button"
-      className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+      className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:opacity-50 disabled:hover:bg-blue-500"
       {...props}
     />
   );
@@ -0,0 +1,110 @@
+import { ChangeEventHandler, FormEventHandler } from "react";
+
+import Button from "../Button";
+import { ConnectionStatus } from "../Main/transport";
+import { RemotePeer } from "../Paint";
+
+const STATUS_MESSAGES: { [status in ConnectionStatus]?: string } = {
+  CONNECTING: "Connecting…",
+  DISCONNECTED: "Connection lost, reconnecting…",
+};
+
+const CollaborationPanel = ({
+  room,
+  name,
+  color,
+  connected,
+  status,
+  error,
+  peers,
+  onRoomChange,
+  onNameChange,
+  onJoin,
+  onLeave,
+}: {
+  room: string;
+  name: string;
+  color: string;
+  /** Whether the user has joined a room. */
+  connected: boolean;
+  /** Whether changes currently get through to the room. */
+  status?: ConnectionStatus;
+  error?: string;
+  peers: RemotePeer[];
+  onRoomChange?: (room: string) => void;
+  onNameChange?: (name: string) => void;
+  onJoin?: VoidFunction;
+  onLeave?: VoidFunction;
+}) => {
+  const handleRoomChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    onRoomChange?.(e.target.value);
+  };
+
+  const handleNameChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    onNameChange?.(e.target.value);
+  };
+
+  const handleSubmit: FormEventHandler = (e) => {
+    e.preventDefault();
+    if (connected) {
+      onLeave?.();
+    } else if (room.trim()) {
+      onJoin?.();
+    }
+  };
+
+  return (
+    <form
+      className="w-72 p-2 border border-gray-300 flex flex-col gap-y-2"
+      onSubmit={handleSubmit}
+    >
+      <span className="font-bold">Collaboration</span>
+      <div className="flex items-center gap-x-2">
+        <span className="w-12">Room:</span>
+        <input
+          className="flex-1 min-w-0 border border-gray-500"
+          value={room}
+          disabled={connected}
+          onChange={handleRoomChange}
+        />
+      </div>
+      <div className="flex items-center gap-x-2">
+        <span className="w-12">Name:</span>
+        <input
+          className="flex-1 min-w-0 border border-gray-500"
+          value={name}
+          onChange={handleNameChange}
+        />
+        <span
+          className="w-4 h-4 shrink-0 rounded-full"
+          style={{ backgroundColor: color }}
+        />
+      </div>
+      <Button type="submit" disabled={!connected && !room.trim()}>
+        {connected ? "Leave" : "Join"}
+      </Button>
+      {error && <span className="text-red-600">{error}</span>}
+      {connected && status && STATUS_MESSAGES[status] && (
+        <span className="text-gray-500">{STATUS_MESSAGES[status]}</span>
+      )}
+      {connected && status === "CONNECTED" && (
+        <ul className="flex flex-col gap-y-1">
+          {peers.length <= 0 && (
+            <li className="text-gray-500">Nobody else is here yet.</li>
+          )}
+          {peers.map((peer) => (
+            <li key={peer.clientId} className="flex items-center gap-x-2">
+              <span
+                className="w-3 h-3 shrink-0 rounded-full"
+                style={{ backgroundColor: peer.color }}
+              />
+              <span className="truncate">{peer.name}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  );
+};
+
+export default CollaborationPanel;
@@ -3,23 +3,18 @@ const ColorButton = ({
   selected,
   onClick,
 }: {
-  color: "ORANGE" | "GREEN" | "PURPLE";
+  color: string;
   selected?: boolean;
   onClick?: VoidFunction;
 }) => {
-  let bgColor = "bg-orange-500";
-  if (color === "GREEN") {
-    bgColor = "bg-green-500";
-  } else if (color === "PURPLE") {
-    bgColor = "bg-purple-500";
-  }
-
   let selectedBorder = selected ? "border border-gray-800 border-2" : "";
 
   return (
     <button
       type="button"
-      className={`w-4 h-4 ${bgColor} ${selectedBorder}`}
+      title={color}
+      className={`w-4 h-4 ${selectedBorder}`}
+      style={{ backgroundColor: color }}
       onClick={onClick}
     ></button>
   );
@@ -0,0 +1,104 @@
+import {
+  ChangeEventHandler,
+  KeyboardEventHandler,
+  useEffect,
+  useState,
+} from "react";
+
+import ColorButton from "../ColorButton";
+import { parseColor, PRESET_COLORS, toHexColor } from "../Paint/func";
+
+const ColorPicker = ({
+  label,
+  color,
+  recentColors = [],
+  onChange,
+  onColorUsed,
+}: {
+  label: string;
+  color: string;
+  recentColors?: string[];
+  onChange?: (color: string) => void;
+  /** Called once a color is settled on, to remember it as a recent color. */
+  onColorUsed?: (color: string) => void;
+}) => {
+  const [text, setText] = useState(color);
+  const invalid = !parseColor(text);
+
+  useEffect(() => {
+    setText(color);
+  }, [color]);
+
+  const handleColorClick = (color: string) => () => {
+    onChange?.(color);
+  };
+
+  const handleNativeChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    onChange?.(e.target.value);
+  };
+
+  const handleNativeBlur = () => {
+    onColorUsed?.(color);
+  };
+
+  const handleTextChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    setText(e.target.value);
+  };
+
+  const commitText = () => {
+    if (invalid) {
+      setText(color);
+      return;
+    }
+
+    const newColor = text.trim();
+    onChange?.(newColor);
+    onColorUsed?.(newColor);
+  };
+
+  const handleTextKeyDown: KeyboardEventHandler<HTMLInputElement> = (e) => {
+    if (e.key === "Enter") commitText();
+  };
+
+  return (
+    <div className="flex items-center gap-x-1">
+      <span className="mr-1">{label}:</span>
+      {PRESET_COLORS.map((presetColor) => (
+        <ColorButton
+          key={presetColor}
+          color={presetColor}
+          selected={presetColor === color}
+          onClick={handleColorClick(presetColor)}
+        />
+      ))}
+      <input
+        type="color"
+        className="w-6 h-6"
+        value={toHexColor(color)}
+        onChange={handleNativeChange}
+        onBlur={handleNativeBlur}
+      />
+      <input
+        type="text"
+        className={`w-36 border ${
+          invalid ? "border-red-500" : "border-gray-500"
+        }`}
+        value={text}
+        placeholder="#rrggbb or rgba()"
+        onChange={handleTextChange}
+        onBlur={commitText}
+        onKeyDown={handleTextKeyDown}
+      />
+      {recentColors.map((recentColor) => (
+        <ColorButton
+          key={recentColor}
+          color={recentColor}
+          selected={recentColor === color}
+          onClick={handleColorClick(recentColor)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ColorPicker;
@@ -0,0 +1,112 @@
+import {
+  ChangeEventHandler,
+  KeyboardEventHandler,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+
+import {
+  formatKeys,
+  Keybinding,
+  useRegisteredKeybindings,
+} from "../Paint/keybindings";
+
+function matchesQuery(binding: Keybinding, query: string) {
+  const text = `${binding.category} ${binding.title}`.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => text.includes(word));
+}
+
+/** Lists every registered action and runs the chosen one. */
+const CommandPalette = ({ onClose }: { onClose?: VoidFunction }) => {
+  const bindings = useRegisteredKeybindings();
+  const [query, setQuery] = useState("");
+  const [activeIdx, setActiveIdx] = useState(0);
+  const activeEl = useRef<HTMLLIElement>(null);
+
+  const results = bindings.filter(
+    (binding) => binding.enabled !== false && matchesQuery(binding, query)
+  );
+
+  useEffect(() => {
+    activeEl.current?.scrollIntoView({ block: "nearest" });
+  }, [activeIdx]);
+
+  const run = (binding: Keybinding) => {
+    onClose?.();
+    binding.run();
+  };
+
+  const handleQueryChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    setQuery(e.target.value);
+    setActiveIdx(0);
+  };
+
+  const handleKeyDown: KeyboardEventHandler<HTMLInputElement> = (e) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (results.length <= 0) return;
+
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIdx((activeIdx + step + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (results[activeIdx]) run(results[activeIdx]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose?.();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-center items-start pt-24 bg-black/30"
+      onPointerDown={onClose}
+    >
+      <div
+        className="w-[32rem] max-w-full bg-white border border-gray-300 shadow-lg flex flex-col"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          className="p-2 border-b border-gray-300 outline-none"
+          placeholder="Type a command…"
+          value={query}
+          onChange={handleQueryChange}
+          onKeyDown={handleKeyDown}
+        />
+        <ul className="max-h-80 overflow-y-auto">
+          {results.length <= 0 && (
+            <li className="p-2 text-gray-500">No matching commands.</li>
+          )}
+          {results.map((binding, idx) => (
+            <li
+              key={binding.id}
+              ref={idx === activeIdx ? activeEl : undefined}
+              className={`px-2 py-1 flex items-center justify-between gap-x-2 cursor-pointer ${
+                idx === activeIdx ? "bg-blue-100" : ""
+              }`}
+              onPointerMove={() => setActiveIdx(idx)}
+              onClick={() => run(binding)}
+            >
+              <span>
+                <span className="text-gray-500">{binding.category}: </span>
+                {binding.title}
+              </span>
+              {binding.keys.length > 0 && (
+                <kbd className="text-sm text-gray-500">
+                  {formatKeys(binding.keys[0])}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,128 @@
+import { KeyboardEventHandler, useState } from "react";
+
+import Button from "../Button";
+import { DocumentSummary } from "../Main/library";
+
+const DocumentLibrary = ({
+  documents,
+  currentId,
+  currentName,
+  dirty,
+  error,
+  onNew,
+  onSave,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  documents: DocumentSummary[];
+  /** Library id of the open drawing, unset until it is saved. */
+  currentId?: string;
+  currentName: string;
+  dirty: boolean;
+  error?: string;
+  onNew?: VoidFunction;
+  onSave?: VoidFunction;
+  onOpen?: (id: string) => void;
+  onRename?: (id: string, name: string) => void;
+  onDuplicate?: (id: string) => void;
+  onDelete?: (id: string) => void;
+}) => {
+  const [renaming, setRenaming] = useState<{ id: string; name: string }>();
+
+  const finishRenaming = () => {
+    if (!renaming) return;
+
+    const name = renaming.name.trim();
+    if (name) onRename?.(renaming.id, name);
+    setRenaming(undefined);
+  };
+
+  const handleRenameKeyDown: KeyboardEventHandler<HTMLInputElement> = (e) => {
+    if (e.key === "Enter") {
+      finishRenaming();
+    } else if (e.key === "Escape") {
+      setRenaming(undefined);
+    }
+  };
+
+  return (
+    <div className="w-72 p-2 border border-gray-300 flex flex-col gap-y-2">
+      <span className="font-bold">
+        {currentName}
+        {dirty && " *"}
+      </span>
+      <div className="flex gap-x-2">
+        <Button onClick={onNew}>New</Button>
+        <Button onClick={onSave} disabled={!dirty}>
+          Save
+        </Button>
+      </div>
+      {error && <span className="text-red-600">{error}</span>}
+      <ul className="flex flex-col gap-y-1 max-h-64 overflow-y-auto">
+        {documents.map((document) => (
+          <li
+            key={document.id}
+            className={`flex gap-x-2 ${
+              document.id === currentId ? "bg-blue-100" : ""
+            }`}
+          >
+            <div className="w-12 h-12 shrink-0 border border-gray-300 bg-white flex items-center justify-center">
+              {document.thumbnail && (
+                <img
+                  className="max-w-full max-h-full"
+                  src={document.thumbnail}
+                  alt=""
+                />
+              )}
+            </div>
+            <div className="flex flex-col min-w-0">
+              {renaming?.id === document.id ? (
+                <input
+                  className="border border-gray-500"
+                  value={renaming.name}
+                  autoFocus
+                  onChange={(e) =>
+                    setRenaming({ id: document.id, name: e.target.value })
+                  }
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={finishRenaming}
+                />
+              ) : (
+                <span className="truncate">{document.name}</span>
+              )}
+              <span className="text-xs text-gray-500">
+                {new Date(document.updatedAt).toLocaleString()}
+              </span>
+              <div className="flex gap-x-2 text-sm text-blue-600">
+                <button type="button" onClick={() => onOpen?.(document.id)}>
+                  Open
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRenaming({ id: document.id, name: document.name })
+                  }
+                >
+                  Rename
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDuplicate?.(document.id)}
+                >
+                  Duplicate
+                </button>
+                <button type="button" onClick={() => onDelete?.(document.id)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DocumentLibrary;
@@ -0,0 +1,129 @@
+import { ChangeEventHandler } from "react";
+
+import Button from "../Button";
+import Checkbox from "../Checkbox";
+import NumberInput from "../NumberInput";
+import {
+  ExportArea,
+  ExportOptions,
+  RASTER_FORMATS,
+  RasterFormat,
+} from "../Paint/export";
+
+const EXPORT_AREAS: { [area in ExportArea]: string } = {
+  CANVAS: "Whole canvas",
+  BACKGROUND: "Background image",
+  REGION: "Selected region",
+};
+
+const ExportControls = ({
+  options,
+  hasBackground = false,
+  hasRegion = false,
+  onChange,
+  onRegionSelect,
+  onImageExport,
+  onSVGExport,
+  onPDFExport,
+}: {
+  options: ExportOptions;
+  /** Without a background image or region those areas fall back to the canvas. */
+  hasBackground?: boolean;
+  hasRegion?: boolean;
+  onChange?: (changes: Partial<ExportOptions>) => void;
+  /** Called to start drawing the region to export. */
+  onRegionSelect?: VoidFunction;
+  onImageExport?: VoidFunction;
+  onSVGExport?: VoidFunction;
+  onPDFExport?: VoidFunction;
+}) => {
+  const handleAnnotationsOnlyChange = () => {
+    onChange?.({ annotationsOnly: !options.annotationsOnly });
+  };
+
+  const handleAreaChange: ChangeEventHandler<HTMLSelectElement> = (e) => {
+    onChange?.({ area: e.target.value as ExportArea });
+  };
+
+  const handleFormatChange: ChangeEventHandler<HTMLSelectElement> = (e) => {
+    onChange?.({ format: e.target.value as RasterFormat });
+  };
+
+  const handleQualityChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    onChange?.({ quality: Number(e.target.value) });
+  };
+
+  const handlePixelRatioChange = (pixelRatio: number) => {
+    onChange?.({ pixelRatio });
+  };
+
+  return (
+    <div className="flex flex-col gap-y-2">
+      <div className="flex items-center gap-x-2">
+        <select
+          className="border border-gray-500"
+          value={options.area}
+          onChange={handleAreaChange}
+        >
+          {(Object.keys(EXPORT_AREAS) as ExportArea[]).map((area) => (
+            <option
+              key={area}
+              value={area}
+              disabled={
+                (area === "BACKGROUND" && !hasBackground) ||
+                (area === "REGION" && !hasRegion)
+              }
+            >
+              {EXPORT_AREAS[area]}
+            </option>
+          ))}
+        </select>
+        <Button onClick={onRegionSelect}>Select Region</Button>
+        <span>Annotations only:</span>
+        <Checkbox
+          checked={options.annotationsOnly}
+          onChange={handleAnnotationsOnlyChange}
+        />
+      </div>
+      <div className="flex items-center gap-x-2">
+        <select
+          className="border border-gray-500"
+          value={options.format}
+          onChange={handleFormatChange}
+        >
+          {Object.keys(RASTER_FORMATS).map((format) => (
+            <option key={format} value={format}>
+              {format}
+            </option>
+          ))}
+        </select>
+        <span>Quality:</span>
+        <input
+          type="range"
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={options.quality}
+          disabled={options.format === "PNG"}
+          onChange={handleQualityChange}
+        />
+        <span>Scale:</span>
+        <NumberInput
+          className="w-16"
+          min={0.25}
+          max={4}
+          step={0.25}
+          value={options.pixelRatio}
+          onChange={handlePixelRatioChange}
+        />
+      </div>
+      <div className="flex gap-x-2">
+        <Button onClick={onImageExport}>Download Image</Button>
+        <Button onClick={onSVGExport}>Download SVG</Button>
+        <Button onClick={onPDFExport}>Download PDF</Button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportControls;
@@ -0,0 +1,132 @@
+import { ChangeEventHandler } from "react";
+
+import Checkbox from "../Checkbox";
+import NumberInput from "../NumberInput";
+import { Box, ImageAdjustments, Size } from "../Paint";
+
+const CROP_FIELDS: { field: keyof Box; label: string }[] = [
+  { field: "x", label: "X" },
+  { field: "y", label: "Y" },
+  { field: "width", label: "W" },
+  { field: "height", label: "H" },
+];
+
+const ImageAdjustmentControls = ({
+  adjustments,
+  image,
+  onChange,
+}: {
+  adjustments: ImageAdjustments;
+  /** Natural size of the image. Cropping is unavailable until it loads. */
+  image?: Size;
+  onChange?: (changes: Partial<ImageAdjustments>) => void;
+}) => {
+  const { crop } = adjustments;
+
+  const handleFlipChange = (field: "flipX" | "flipY") => () => {
+    onChange?.({ [field]: !adjustments[field] });
+  };
+
+  const handleBrightnessChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    onChange?.({ brightness: Number(e.target.value) });
+  };
+
+  const handleContrastChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    onChange?.({ contrast: Number(e.target.value) });
+  };
+
+  const handleCropToggle = () => {
+    if (!image) return;
+
+    onChange?.({ crop: crop ? undefined : { x: 0, y: 0, ...image } });
+  };
+
+  const handleCropChange = (field: keyof Box) => (value: number) => {
+    if (!image || !crop) return;
+
+    const nextCrop = { ...crop, [field]: value };
+    // Keep the crop inside the image.
+    nextCrop.width = Math.min(nextCrop.width, image.width - nextCrop.x);
+    nextCrop.height = Math.min(nextCrop.height, image.height - nextCrop.y);
+    onChange?.({ crop: nextCrop });
+  };
+
+  const getCropLimits = (field: keyof Box) => {
+    if (!image) return {};
+
+    switch (field) {
+      case "x":
+        return { min: 0, max: image.width - 1 };
+      case "y":
+        return { min: 0, max: image.height - 1 };
+      case "width":
+        return { min: 1, max: image.width };
+      case "height":
+        return { min: 1, max: image.height };
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-y-2">
+      <div className="flex items-center gap-x-2">
+        <span>Flip horizontally:</span>
+        <Checkbox
+          checked={adjustments.flipX}
+          onChange={handleFlipChange("flipX")}
+        />
+        <span>Vertically:</span>
+        <Checkbox
+          checked={adjustments.flipY}
+          onChange={handleFlipChange("flipY")}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-x-2">
+        <span>Brightness:</span>
+        <input
+          type="range"
+          min={-1}
+          max={1}
+          step={0.05}
+          value={adjustments.brightness}
+          onChange={handleBrightnessChange}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-x-2">
+        <span>Contrast:</span>
+        <input
+          type="range"
+          min={-100}
+          max={100}
+          step={1}
+          value={adjustments.contrast}
+          onChange={handleContrastChange}
+        />
+      </div>
+      <div className="flex items-center gap-x-2">
+        <span>Crop:</span>
+        <Checkbox
+          checked={!!crop}
+          disabled={!image}
+          onChange={handleCropToggle}
+        />
+      </div>
+      {crop && (
+        <div className="grid grid-cols-2 gap-2">
+          {CROP_FIELDS.map(({ field, label }) => (
+            <label key={field} className="flex items-center gap-x-2">
+              <span className="w-4">{label}</span>
+              <NumberInput
+                className="w-20"
+                value={crop[field]}
+                onChange={handleCropChange(field)}
+                {...getCropLimits(field)}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageAdjustmentControls;
@@ -0,0 +1,154 @@
+import { DragEvent, MouseEvent, useState } from "react";
+
+import Button from "../Button";
+import { PaintShape } from "../Paint";
+import { isPaintGroup, isPaintText, ShapeOrderCommand } from "../Paint/func";
+
+const SHAPE_NAMES: { [type in PaintShape["type"]]: string } = {
+  RECT: "Rectangle",
+  ELLIPSE: "Ellipse",
+  TEXT: "Text",
+  LINE: "Line",
+  ARROW: "Arrow",
+  POLYGON: "Polygon",
+  GROUP: "Group",
+  IMAGE: "Image",
+  MEASURE: "Measurement",
+};
+
+function getShapeLabel(shape: PaintShape) {
+  if (isPaintText(shape)) return shape.text;
+  if (isPaintGroup(shape)) return `Group of ${shape.children.length}`;
+
+  return SHAPE_NAMES[shape.type];
+}
+
+const LayersPanel = ({
+  shapes,
+  selectedKeys,
+  thumbnails,
+  onSelect,
+  onChange,
+  onMove,
+  onOrder,
+}: {
+  /** All shapes in stacking order; the panel lists the top-most first. */
+  shapes: PaintShape[];
+  selectedKeys: string[];
+  /** Image URLs of the shapes by key. */
+  thumbnails: { [key: string]: string };
+  onSelect?: (key: string, toggle: boolean) => void;
+  /** Called with the updated shape when it is hidden, shown or (un)locked. */
+  onChange?: (changedShape: PaintShape, field: string) => void;
+  /** Called when a shape is dragged to `index` in the stacking order. */
+  onMove?: (key: string, index: number) => void;
+  onOrder?: (command: ShapeOrderCommand) => void;
+}) => {
+  const [draggingKey, setDraggingKey] = useState<string>();
+  const [dropIdx, setDropIdx] = useState<number>();
+  const rows = [...shapes].reverse();
+
+  const handleRowClick = (shape: PaintShape) => (e: MouseEvent) => {
+    // Locked and hidden shapes cannot be selected on the stage either.
+    if (shape.locked || !shape.visible) return;
+
+    onSelect?.(shape.key, e.shiftKey);
+  };
+
+  const handleToggle =
+    (shape: PaintShape, field: "visible" | "locked") => (e: MouseEvent) => {
+      e.stopPropagation();
+      onChange?.({ ...shape, [field]: !shape[field] }, field);
+    };
+
+  const handleDragStart = (key: string) => (e: DragEvent) => {
+    // Firefox only starts dragging when there is data to drag.
+    e.dataTransfer.setData("text/plain", key);
+    e.dataTransfer.effectAllowed = "move";
+    setDraggingKey(key);
+  };
+
+  const handleDragOver = (rowIdx: number) => (e: DragEvent) => {
+    if (!draggingKey) return;
+
+    e.preventDefault();
+    setDropIdx(rowIdx);
+  };
+
+  const handleDrop = (rowIdx: number) => (e: DragEvent) => {
+    e.preventDefault();
+    if (draggingKey) onMove?.(draggingKey, shapes.length - 1 - rowIdx);
+    setDraggingKey(undefined);
+    setDropIdx(undefined);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingKey(undefined);
+    setDropIdx(undefined);
+  };
+
+  const hasSelection = selectedKeys.length > 0;
+
+  return (
+    <div className="w-72 p-2 border border-gray-300 flex flex-col gap-y-2">
+      <span className="font-bold">Layers</span>
+      <div className="flex flex-wrap gap-2">
+        <Button disabled={!hasSelection} onClick={() => onOrder?.("FRONT")}>
+          Front
+        </Button>
+        <Button disabled={!hasSelection} onClick={() => onOrder?.("FORWARD")}>
+          Up
+        </Button>
+        <Button disabled={!hasSelection} onClick={() => onOrder?.("BACKWARD")}>
+          Down
+        </Button>
+        <Button disabled={!hasSelection} onClick={() => onOrder?.("BACK")}>
+          Back
+        </Button>
+      </div>
+      {rows.length <= 0 && (
+        <span className="text-gray-500">The drawing has no shapes.</span>
+      )}
+      <ul className="flex flex-col gap-y-1 max-h-64 overflow-y-auto">
+        {rows.map((shape, rowIdx) => (
+          <li
+            key={shape.key}
+            draggable
+            className={`flex items-center gap-x-2 border-t-2 ${
+              dropIdx === rowIdx ? "border-blue-500" : "border-transparent"
+            } ${selectedKeys.includes(shape.key) ? "bg-blue-100" : ""} ${
+              shape.visible ? "" : "opacity-50"
+            }`}
+            onClick={handleRowClick(shape)}
+            onDragStart={handleDragStart(shape.key)}
+            onDragOver={handleDragOver(rowIdx)}
+            onDrop={handleDrop(rowIdx)}
+            onDragEnd={handleDragEnd}
+          >
+            <div className="w-10 h-10 shrink-0 border border-gray-300 bg-white flex items-center justify-center">
+              {thumbnails[shape.key] && (
+                <img
+                  className="max-w-full max-h-full"
+                  src={thumbnails[shape.key]}
+                  alt=""
+                  draggable={false}
+                />
+              )}
+            </div>
+            <span className="flex-1 truncate">{getShapeLabel(shape)}</span>
+            <div className="flex gap-x-2 text-sm text-blue-600">
+              <button type="button" onClick={handleToggle(shape, "visible")}>
+                {shape.visible ? "Hide" : "Show"}
+              </button>
+              <button type="button" onClick={handleToggle(shape, "locked")}>
+                {shape.locked ? "Unlock" : "Lock"}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LayersPanel;
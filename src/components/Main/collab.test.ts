@@ -0,0 +1,207 @@
+import { act, renderHook } from "@testing-library/react";
+
+import { PaintRect, PaintShape } from "../Paint";
+import {
+  applyOperations,
+  CollabMessage,
+  ShapeOperation,
+  useCollaboration,
+} from "./collab";
+import { useHistory } from "./history";
+import { createLocalRoom, SyncTransport } from "./transport";
+
+const createRect = (key: string, x = 0): PaintRect => ({
+  type: "RECT",
+  x,
+  y: 0,
+  rotation: 0,
+  width: 10,
+  height: 10,
+  key,
+  strokeColor: "#000000",
+  fillColor: "#ffffff",
+  strokeWidth: 1,
+  dash: [],
+  locked: false,
+  visible: true,
+});
+
+// Kept in state by `Main`; a new array every render would resend presence.
+const NO_KEYS: string[] = [];
+
+/** An editor's history wired to the collaboration like `Main` does. */
+function useClient(transport: SyncTransport<CollabMessage>) {
+  const history = useHistory<PaintShape[]>([]);
+  const { rebase } = history;
+  useCollaboration({
+    transport,
+    name: "Test",
+    color: "#000000",
+    shapes: history.state,
+    selectedKeys: NO_KEYS,
+    onRemoteOperations: (operations: ShapeOperation[]) => {
+      rebase((shapes, present) => applyOperations(shapes, operations, present));
+    },
+  });
+
+  return history;
+}
+
+function connectClients() {
+  const room = createLocalRoom<CollabMessage>();
+  const [transportA, transportB] = [room.connect(), room.connect()];
+  const { result: a } = renderHook(() => useClient(transportA));
+  const { result: b } = renderHook(() => useClient(transportB));
+
+  return { room, a, b };
+}
+
+/** Lets the room deliver messages, and the replies they cause, until quiet. */
+async function settle() {
+  for (let round = 0; round < 5; round++) {
+    await act(() => new Promise((resolve) => setTimeout(resolve)));
+  }
+}
+
+const getShapes = (client: { current: { state: PaintShape[] } }) =>
+  client.current.state;
+
+describe("useCollaboration", () => {
+  it("shares shapes added by either client", async () => {
+    const { a, b } = connectClients();
+
+    act(() => {
+      a.current.commit((shapes) => shapes.concat(createRect("a")));
+    });
+    await settle();
+
+    expect(getShapes(b)).toEqual([createRect("a")]);
+  });
+
+  it("converges after concurrent changes to the same shape", async () => {
+    const { a, b } = connectClients();
+    act(() => {
+      a.current.commit((shapes) => shapes.concat(createRect("rect")));
+    });
+    await settle();
+
+    // Both change the shape before hearing of the other's change.
+    act(() => {
+      a.current.commit(() => [createRect("rect", 10)]);
+      b.current.commit(() => [createRect("rect", 20)]);
+    });
+    await settle();
+
+    expect(getShapes(a)).toEqual(getShapes(b));
+    expect(getShapes(a)).toHaveLength(1);
+  });
+
+  it("converges after a concurrent change and delete", async () => {
+    const { a, b } = connectClients();
+    act(() => {
+      a.current.commit(() => [createRect("rect")]);
+    });
+    await settle();
+
+    act(() => {
+      a.current.commit(() => []);
+      b.current.commit(() => [createRect("rect", 20)]);
+    });
+    await settle();
+
+    expect(getShapes(a)).toEqual(getShapes(b));
+  });
+
+  it("converges after concurrent reordering and adding", async () => {
+    const { a, b } = connectClients();
+    act(() => {
+      a.current.commit(() => [createRect("1"), createRect("2")]);
+    });
+    await settle();
+
+    act(() => {
+      a.current.commit(() => [createRect("2"), createRect("1")]);
+      b.current.commit((shapes) => shapes.concat(createRect("3")));
+    });
+    await settle();
+
+    const keys = getShapes(a).map((shape) => shape.key);
+    expect(getShapes(b).map((shape) => shape.key)).toEqual(keys);
+    expect([...keys].sort()).toEqual(["1", "2", "3"]);
+  });
+
+  it("undoes local changes and keeps remote ones", async () => {
+    const { a, b } = connectClients();
+
+    act(() => {
+      a.current.commit((shapes) => shapes.concat(createRect("a")));
+    });
+    await settle();
+    act(() => {
+      b.current.commit((shapes) => shapes.concat(createRect("b")));
+    });
+    await settle();
+    expect(getShapes(a).map((shape) => shape.key)).toEqual(["a", "b"]);
+
+    act(() => {
+      a.current.undo();
+    });
+    await settle();
+
+    expect(getShapes(a)).toEqual([createRect("b")]);
+    expect(getShapes(b)).toEqual([createRect("b")]);
+    // The remote shape is not an undo step of its own.
+    expect(a.current.canUndo).toBe(false);
+
+    act(() => {
+      a.current.redo();
+    });
+    await settle();
+
+    expect(getShapes(b).map((shape) => shape.key)).toEqual(["a", "b"]);
+  });
+
+  it("removes an undone shape that someone else changed", async () => {
+    const { a, b } = connectClients();
+
+    act(() => {
+      a.current.commit((shapes) => shapes.concat(createRect("a")));
+    });
+    await settle();
+    act(() => {
+      b.current.commit(() => [createRect("a", 20)]);
+    });
+    await settle();
+    expect(getShapes(a)).toEqual([createRect("a", 20)]);
+
+    act(() => {
+      a.current.undo();
+    });
+    await settle();
+
+    expect(getShapes(a)).toEqual([]);
+    expect(getShapes(b)).toEqual([]);
+  });
+
+  it("drops operations with invalid shapes and keeps the rest", async () => {
+    const { room, a } = connectClients();
+    const { width, ...invalidRect } = createRect("invalid");
+
+    room.connect().send({
+      type: "OPERATIONS",
+      clientId: "other",
+      operations: [
+        {
+          type: "PUT",
+          clock: 1,
+          clientId: "other",
+          shape: invalidRect as PaintShape,
+        },
+        { type: "PUT", clock: 2, clientId: "other", shape: createRect("ok") },
+      ],
+    });
+    await settle();
+
+    expect(getShapes(a)).toEqual([createRect("ok")]);
+  });
+});
@@ -0,0 +1,435 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+
+import { PaintShape, Position, RemotePeer } from "../Paint";
+import { isFiniteNumber, isRecord, validateShape } from "../Paint/schema";
+import { ConnectionStatus, SyncTransport } from "./transport";
+
+/** Milliseconds between cursor updates sent to the other clients. */
+const CURSOR_INTERVAL = 50;
+/** Milliseconds between presence messages that keep a client listed. */
+const PRESENCE_INTERVAL = 5000;
+/** Clients that have not been heard of for this long have left. */
+const PEER_TIMEOUT = 15000;
+
+export const PEER_COLORS = [
+  "#ef4444",
+  "#3b82f6",
+  "#10b981",
+  "#eab308",
+  "#ec4899",
+  "#8b5cf6",
+];
+
+/**
+ * Orders operations by a Lamport clock. Of two operations on the same shape
+ * the one with the higher clock wins, ties go to the higher client id.
+ */
+export type Stamp = { clock: number; clientId: string };
+
+/**
+ * Changes to the shared drawing. Creating, moving, resizing and editing a
+ * shape all put its new state under its key.
+ */
+export type ShapeOperation = Stamp &
+  (
+    | { type: "PUT"; shape: PaintShape }
+    | { type: "DELETE"; key: string }
+    | { type: "ORDER"; keys: string[] }
+  );
+
+type ShapeEntry = Extract<ShapeOperation, { type: "PUT" | "DELETE" }>;
+type OrderEntry = Extract<ShapeOperation, { type: "ORDER" }>;
+
+export type CollabMessage =
+  /** Asks the other clients for the drawing and their presence. */
+  | { type: "JOIN"; clientId: string }
+  | { type: "OPERATIONS"; clientId: string; operations: ShapeOperation[] }
+  | ({ type: "PRESENCE" } & RemotePeer)
+  | { type: "LEAVE"; clientId: string };
+
+/**
+ * What a client knows about the shared drawing: the latest operation on every
+ * shape, deletes included, and on the stacking order.
+ */
+export type Replica = {
+  clock: number;
+  shapes: { [key: string]: ShapeEntry };
+  order?: OrderEntry;
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function parseOperation(data: unknown): ShapeOperation | undefined {
+  if (
+    !isRecord(data) ||
+    !isFiniteNumber(data.clock) ||
+    typeof data.clientId !== "string"
+  ) {
+    return undefined;
+  }
+
+  switch (data.type) {
+    case "PUT":
+      return validateShape(data.shape, "shape").length <= 0
+        ? (data as ShapeOperation)
+        : undefined;
+    case "DELETE":
+      return typeof data.key === "string"
+        ? (data as ShapeOperation)
+        : undefined;
+    case "ORDER":
+      return isStringArray(data.keys) ? (data as ShapeOperation) : undefined;
+  }
+  return undefined;
+}
+
+function isPosition(value: unknown): value is Position {
+  return isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+}
+
+/**
+ * Checks a message received from another client, which may run a different
+ * version or misbehave. Invalid operations are left out, and undefined is
+ * returned for messages that cannot be used at all.
+ */
+export function parseCollabMessage(data: unknown): CollabMessage | undefined {
+  if (!isRecord(data) || typeof data.clientId !== "string") return undefined;
+
+  const { clientId } = data;
+  switch (data.type) {
+    case "JOIN":
+    case "LEAVE":
+      return { type: data.type, clientId };
+    case "OPERATIONS":
+      if (!Array.isArray(data.operations)) return undefined;
+
+      const operations = data.operations.flatMap((operation) => {
+        const parsed = parseOperation(operation);
+        return parsed ? [parsed] : [];
+      });
+      return { type: "OPERATIONS", clientId, operations };
+    case "PRESENCE":
+      const { name, color, cursor, selectedKeys } = data;
+      if (
+        typeof name !== "string" ||
+        typeof color !== "string" ||
+        !isStringArray(selectedKeys) ||
+        (cursor !== undefined && !isPosition(cursor))
+      ) {
+        return undefined;
+      }
+
+      return { type: "PRESENCE", clientId, name, color, cursor, selectedKeys };
+  }
+  return undefined;
+}
+
+export function createReplica(): Replica {
+  return { clock: 0, shapes: {} };
+}
+
+function isNewer(stamp: Stamp, other?: Stamp) {
+  return (
+    !other ||
+    stamp.clock > other.clock ||
+    (stamp.clock === other.clock && stamp.clientId > other.clientId)
+  );
+}
+
+function getEntryKey(entry: ShapeEntry) {
+  return entry.type === "PUT" ? entry.shape.key : entry.key;
+}
+
+/**
+ * Merges operations into the replica and returns those that won. Repeated and
+ * outdated operations are dropped, so clients that merge the same operations
+ * in any order end up with the same drawing.
+ */
+export function mergeOperations(
+  replica: Replica,
+  operations: ShapeOperation[]
+): { replica: Replica; applied: ShapeOperation[] } {
+  const shapes = { ...replica.shapes };
+  let { clock, order } = replica;
+  const applied: ShapeOperation[] = [];
+
+  operations.forEach((operation) => {
+    clock = Math.max(clock, operation.clock);
+
+    if (operation.type === "ORDER") {
+      if (!isNewer(operation, order)) return;
+
+      order = operation;
+    } else {
+      const key = getEntryKey(operation);
+      if (!isNewer(operation, shapes[key])) return;
+
+      shapes[key] = operation;
+    }
+    applied.push(operation);
+  });
+
+  return { replica: { clock, shapes, order }, applied };
+}
+
+/** Operations that recreate the replica, for clients that join. */
+export function getReplicaOperations(replica: Replica): ShapeOperation[] {
+  const operations: ShapeOperation[] = Object.values(replica.shapes);
+  return replica.order ? operations.concat(replica.order) : operations;
+}
+
+function isSameOrder(keys: string[], otherKeys: string[]) {
+  return (
+    keys.length === otherKeys.length &&
+    keys.every((key, idx) => key === otherKeys[idx])
+  );
+}
+
+/** Operations that turn the drawing known to the replica into `shapes`. */
+export function diffShapes(
+  replica: Replica,
+  shapes: PaintShape[],
+  clientId: string
+): ShapeOperation[] {
+  let clock = replica.clock;
+  const stamp = () => ({ clock: ++clock, clientId });
+  const operations: ShapeOperation[] = [];
+
+  shapes.forEach((shape) => {
+    const entry = replica.shapes[shape.key];
+    // Shapes are replaced on every change, so unchanged ones are the same.
+    if (entry?.type !== "PUT" || entry.shape !== shape) {
+      operations.push({ ...stamp(), type: "PUT", shape });
+    }
+  });
+
+  Object.values(replica.shapes).forEach((entry) => {
+    if (
+      entry.type === "PUT" &&
+      !shapes.some((shape) => shape.key === entry.shape.key)
+    ) {
+      operations.push({ ...stamp(), type: "DELETE", key: entry.shape.key });
+    }
+  });
+
+  const keys = shapes.map((shape) => shape.key);
+  if (keys.length > 0 && !isSameOrder(replica.order?.keys ?? [], keys)) {
+    operations.push({ ...stamp(), type: "ORDER", keys });
+  }
+
+  return operations;
+}
+
+/**
+ * Applies merged operations to a list of shapes. Shapes missing from a new
+ * stacking order were added concurrently and stay on top.
+ *
+ * @param present The shapes the operations were merged into, when `shapes` is
+ * an older state from the undo history. Changes to shapes of `present` that
+ * the older state lacks are skipped, so undoing the creation of a shape still
+ * removes it after someone else changed it.
+ */
+export function applyOperations(
+  shapes: PaintShape[],
+  operations: ShapeOperation[],
+  present: PaintShape[] = shapes
+): PaintShape[] {
+  return operations.reduce((prevShapes, operation) => {
+    switch (operation.type) {
+      case "PUT":
+        const { shape } = operation;
+        const hasShape = (shapes: PaintShape[]) =>
+          shapes.some((prevShape) => prevShape.key === shape.key);
+        if (hasShape(prevShapes)) {
+          return prevShapes.map((prevShape) =>
+            prevShape.key === shape.key ? shape : prevShape
+          );
+        }
+        return hasShape(present) ? prevShapes : prevShapes.concat(shape);
+      case "DELETE":
+        return prevShapes.filter((shape) => shape.key !== operation.key);
+      case "ORDER":
+        const getRank = (shape: PaintShape) => {
+          const idx = operation.keys.indexOf(shape.key);
+          return idx < 0 ? operation.keys.length : idx;
+        };
+        // Array#sort is stable, so unranked shapes keep their order.
+        return [...prevShapes].sort((a, b) => getRank(a) - getRank(b));
+    }
+    return prevShapes;
+  }, shapes);
+}
+
+/**
+ * Shares the shapes, the selection and the pointer with the other clients on
+ * the transport. Remote changes are passed to `onRemoteOperations` and come
+ * back in through `shapes`.
+ */
+export function useCollaboration({
+  transport,
+  name,
+  color,
+  shapes,
+  selectedKeys,
+  onRemoteOperations,
+}: {
+  transport?: SyncTransport<CollabMessage>;
+  name: string;
+  color: string;
+  shapes: PaintShape[];
+  selectedKeys: string[];
+  onRemoteOperations?: (operations: ShapeOperation[]) => void;
+}) {
+  const [clientId] = useState(uuidv4);
+  const [peers, setPeers] = useState<RemotePeer[]>([]);
+  const [status, setStatus] = useState<ConnectionStatus>();
+  const replica = useRef(createReplica());
+  const presence = useRef<RemotePeer>({ clientId, name, color, selectedKeys });
+  presence.current = { ...presence.current, name, color, selectedKeys };
+  const cursorTimer = useRef<number>();
+  const lastSeen = useRef(new Map<string, number>());
+  const shapesRef = useRef(shapes);
+  shapesRef.current = shapes;
+  const onRemoteOperationsRef = useRef(onRemoteOperations);
+  onRemoteOperationsRef.current = onRemoteOperations;
+
+  const sendPresence = useCallback(() => {
+    transport?.send({ type: "PRESENCE", ...presence.current });
+  }, [transport]);
+
+  const sendLocalChanges = useCallback(() => {
+    const operations = diffShapes(replica.current, shapesRef.current, clientId);
+    if (!transport || operations.length <= 0) return;
+
+    replica.current = mergeOperations(replica.current, operations).replica;
+    transport.send({ type: "OPERATIONS", clientId, operations });
+  }, [clientId, transport]);
+
+  useEffect(() => {
+    replica.current = createReplica();
+    lastSeen.current.clear();
+    setPeers([]);
+    setStatus(undefined);
+    if (!transport) return;
+
+    const handleMessage = (data: unknown) => {
+      const message = parseCollabMessage(data);
+      if (!message || message.clientId === clientId) return;
+
+      switch (message.type) {
+        case "JOIN":
+          transport.send({
+            type: "OPERATIONS",
+            clientId,
+            operations: getReplicaOperations(replica.current),
+          });
+          sendPresence();
+          break;
+        case "OPERATIONS":
+          const merged = mergeOperations(replica.current, message.operations);
+          replica.current = merged.replica;
+          if (merged.applied.length > 0) {
+            onRemoteOperationsRef.current?.(merged.applied);
+          }
+          break;
+        case "PRESENCE":
+          const { type, ...peer } = message;
+          lastSeen.current.set(peer.clientId, Date.now());
+          setPeers((prevPeers) =>
+            prevPeers
+              .filter((prevPeer) => prevPeer.clientId !== peer.clientId)
+              .concat(peer)
+          );
+          break;
+        case "LEAVE":
+          lastSeen.current.delete(message.clientId);
+          setPeers((prevPeers) =>
+            prevPeers.filter((peer) => peer.clientId !== message.clientId)
+          );
+          break;
+      }
+    };
+
+    const unsubscribe = transport.subscribe(handleMessage);
+    // Messages sent while disconnected are lost, so every connection starts
+    // by sharing the whole drawing and asking for everyone else's.
+    const unsubscribeStatus = transport.subscribeStatus((newStatus) => {
+      setStatus(newStatus);
+      if (newStatus === "DISCONNECTED") {
+        lastSeen.current.clear();
+        setPeers([]);
+      }
+      if (newStatus !== "CONNECTED") return;
+
+      const operations = diffShapes(
+        replica.current,
+        shapesRef.current,
+        clientId
+      );
+      replica.current = mergeOperations(replica.current, operations).replica;
+      transport.send({ type: "JOIN", clientId });
+      const replicaOperations = getReplicaOperations(replica.current);
+      if (replicaOperations.length > 0) {
+        transport.send({
+          type: "OPERATIONS",
+          clientId,
+          operations: replicaOperations,
+        });
+      }
+      sendPresence();
+    });
+
+    const heartbeat = window.setInterval(() => {
+      sendPresence();
+
+      const now = Date.now();
+      setPeers((prevPeers) => {
+        const activePeers = prevPeers.filter(
+          (peer) =>
+            now - (lastSeen.current.get(peer.clientId) ?? 0) < PEER_TIMEOUT
+        );
+        return activePeers.length === prevPeers.length
+          ? prevPeers
+          : activePeers;
+      });
+    }, PRESENCE_INTERVAL);
+
+    return () => {
+      window.clearInterval(heartbeat);
+      window.clearTimeout(cursorTimer.current);
+      cursorTimer.current = undefined;
+      transport.send({ type: "LEAVE", clientId });
+      unsubscribe();
+      unsubscribeStatus();
+    };
+  }, [clientId, sendPresence, transport]);
+
+  useEffect(() => {
+    sendLocalChanges();
+  }, [sendLocalChanges, shapes]);
+
+  useEffect(() => {
+    sendPresence();
+  }, [color, name, selectedKeys, sendPresence]);
+
+  /** Shares the pointer position, at most every `CURSOR_INTERVAL`. */
+  const updateCursor = useCallback(
+    (cursor?: Position) => {
+      presence.current = { ...presence.current, cursor };
+      if (!transport || cursorTimer.current !== undefined) return;
+
+      cursorTimer.current = window.setTimeout(() => {
+        cursorTimer.current = undefined;
+        sendPresence();
+      }, CURSOR_INTERVAL);
+    },
+    [sendPresence, transport]
+  );
+
+  return { clientId, peers, status, updateCursor };
+}
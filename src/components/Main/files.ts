@@ -0,0 +1,119 @@
+import { loadImage, releaseImage } from "../Paint/images";
+
+/** Files larger than this are rejected before they are read. */
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+/**
+ * Images whose longer side exceeds this many pixels are scaled down before
+ * they are embedded, which keeps documents and autosaves small.
+ */
+export const MAX_IMAGE_SIZE = 4096;
+
+const IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+  "image/svg+xml",
+];
+/** Formats that are kept when downscaling; the others become PNG. */
+const DOWNSCALE_TYPES = ["image/jpeg", "image/webp"];
+const DOWNSCALE_QUALITY = 0.92;
+
+/** Value for the `accept` attribute of image file inputs. */
+export const IMAGE_FILE_ACCEPT = IMAGE_TYPES.join(",");
+
+export type FileKind = "IMAGE" | "DOCUMENT";
+
+/**
+ * Tells images from exported JSON documents. Browsers report no type for some
+ * files, so the extension is checked as well.
+ */
+export function getFileKind(file: File): FileKind | undefined {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (IMAGE_TYPES.includes(file.type)) return "IMAGE";
+  if (file.type === "application/json" || extension === "json") {
+    return "DOCUMENT";
+  }
+  return undefined;
+}
+
+function formatSize(bytes: number) {
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`;
+}
+
+/** Throws an error that can be shown to the user if the file is unusable. */
+export function validateFile(file: File, kinds: FileKind[]): FileKind {
+  const kind = getFileKind(file);
+  if (!kind || !kinds.includes(kind)) {
+    const expected = kinds.includes("DOCUMENT")
+      ? "an image (PNG, JPEG, GIF, WebP, BMP or SVG) or a JSON document"
+      : "an image (PNG, JPEG, GIF, WebP, BMP or SVG)";
+    throw new Error(`"${file.name}" is not ${expected}.`);
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(
+      `"${file.name}" is ${formatSize(
+        file.size
+      )}, files can be at most ${formatSize(MAX_FILE_SIZE)}.`
+    );
+  }
+
+  return kind;
+}
+
+function readFile(file: File, as: "DATA_URL" | "TEXT") {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () =>
+      reject(new Error(`"${file.name}" could not be read.`));
+
+    if (as === "DATA_URL") {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
+
+export function readTextFile(file: File) {
+  return readFile(file, "TEXT");
+}
+
+function downscaleImage(image: HTMLImageElement, type: string) {
+  const scale = MAX_IMAGE_SIZE / Math.max(image.width, image.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return DOWNSCALE_TYPES.includes(type)
+    ? canvas.toDataURL(type, DOWNSCALE_QUALITY)
+    : canvas.toDataURL("image/png");
+}
+
+/**
+ * Reads an image file into a data URL and loads it. Oversized raster images
+ * are scaled down first; SVGs are kept as they are.
+ */
+export async function readImageFile(file: File) {
+  let src = await readFile(file, "DATA_URL");
+  let image = await loadImage(src).catch(() => {
+    throw new Error(`"${file.name}" is not a valid image.`);
+  });
+
+  if (
+    file.type !== "image/svg+xml" &&
+    Math.max(image.width, image.height) > MAX_IMAGE_SIZE
+  ) {
+    // Only the smaller copy is kept.
+    releaseImage(src);
+    src = downscaleImage(image, file.type);
+    image = await loadImage(src);
+  }
+
+  return { src, image };
+}
@@ -0,0 +1,123 @@
+import { useCallback, useMemo, useState } from "react";
+
+export const HISTORY_LIMIT = 100;
+
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  /**
+   * Consecutive commits sharing the same merge key (e.g. typing into one text
+   * shape) collapse into a single undo step.
+   */
+  mergeKey?: string;
+};
+
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [] };
+}
+
+export function pushHistory<T>(
+  history: History<T>,
+  next: T,
+  mergeKey?: string,
+  limit = HISTORY_LIMIT
+): History<T> {
+  if (next === history.present) return history;
+
+  if (mergeKey !== undefined && mergeKey === history.mergeKey) {
+    return { ...history, present: next, future: [] };
+  }
+
+  const past = history.past.concat([history.present]);
+
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    present: next,
+    future: [],
+    mergeKey,
+  };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  if (history.past.length <= 0) return history;
+
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present].concat(history.future),
+  };
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  if (history.future.length <= 0) return history;
+
+  return {
+    past: history.past.concat([history.present]),
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+/**
+ * Applies a change to every state in the history, so that undo and redo keep
+ * it. Used for changes made by someone else, which are not ours to undo.
+ * `update` also gets the present state, to tell which parts of an older state
+ * the change was made to.
+ */
+export function rebaseHistory<T>(
+  history: History<T>,
+  update: (state: T, present: T) => T
+): History<T> {
+  const updateState = (state: T) => update(state, history.present);
+
+  return {
+    ...history,
+    past: history.past.map(updateState),
+    present: updateState(history.present),
+    future: history.future.map(updateState),
+  };
+}
+
+export function useHistory<T>(initialState: T) {
+  const [history, setHistory] = useState(() => createHistory(initialState));
+
+  const commit = useCallback(
+    (updater: (prevState: T) => T, mergeKey?: string) => {
+      setHistory((prevHistory) =>
+        pushHistory(prevHistory, updater(prevHistory.present), mergeKey)
+      );
+    },
+    []
+  );
+
+  const undo = useCallback(() => {
+    setHistory(undoHistory);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(redoHistory);
+  }, []);
+
+  const reset = useCallback((state: T) => {
+    setHistory(createHistory(state));
+  }, []);
+
+  const rebase = useCallback((update: (state: T, present: T) => T) => {
+    setHistory((prevHistory) => rebaseHistory(prevHistory, update));
+  }, []);
+
+  return useMemo(
+    () => ({
+      state: history.present,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      commit,
+      undo,
+      redo,
+      reset,
+      rebase,
+    }),
+    [commit, history, rebase, redo, reset, undo]
+  );
+}
@@ -1,233 +1,1568 @@
-import { ChangeEventHandler, useCallback, useRef, useState } from "react";
+import {
+  ChangeEventHandler,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import Konva from "konva";
+import { v4 as uuidv4 } from "uuid";
 
-import ColorButton from "../ColorButton";
+import ArrangeControls from "../ArrangeControls";
 import Button from "../Button";
+import BackgroundPanel from "../BackgroundPanel";
 import Paint, {
+  BackgroundImage,
+  Box,
+  Calibration,
   CanvasDrawMode,
   PaintShape,
-  PenColor,
+  PaintStyle,
   Position,
   Size,
+  Viewport,
 } from "../Paint";
 import Checkbox from "../Checkbox";
-import { isPaintEllipse, isPaintRect, isPaintText } from "../Paint/func";
+import CollaborationPanel from "../CollaborationPanel";
+import CommandPalette from "../CommandPalette";
+import DocumentLibrary from "../DocumentLibrary";
+import ExportControls from "../ExportControls";
+import LayersPanel from "../LayersPanel";
+import MeasurePanel from "../MeasurePanel";
+import NumberInput from "../NumberInput";
+import PropertiesPanel from "../PropertiesPanel";
+import ShortcutHelp from "../ShortcutHelp";
+import StyleControls from "../StyleControls";
+import {
+  AlignCommand,
+  alignShapes,
+  applyStyle,
+  createPaintImage,
+  DEFAULT_BACKGROUND,
+  DEFAULT_CALIBRATION,
+  DEFAULT_DOCUMENT_SIZE,
+  DEFAULT_PAINT_STYLE,
+  DEFAULT_SNAP_OPTIONS,
+  DEFAULT_VIEWPORT,
+  DistributeAxis,
+  distributeShapes,
+  fitViewport,
+  getImageCrop,
+  getShapeBoxes,
+  groupShapes,
+  isPaintGroup,
+  moveShape,
+  PASTE_OFFSET,
+  reorderShapes,
+  resizeViewport,
+  ShapeOrderCommand,
+  SnapOptions,
+  ungroupShapes,
+  zoomViewport,
+  ZOOM_STEP,
+} from "../Paint/func";
+import {
+  parseDocument,
+  SerializedDocument,
+  serializeDocument,
+  ValidationError,
+} from "../Paint/schema";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  downloadBlob,
+  downloadUrl,
+  ExportOptions,
+  exportRaster,
+  getBackgroundBox,
+  getDocumentThumbnail,
+  getExportBox,
+  getRotatedImageBox,
+  getShapeThumbnail,
+  getStageTextLayout,
+  RASTER_FORMATS,
+} from "../Paint/export";
+import { loadImage } from "../Paint/images";
+import { Keybinding, useKeybindings } from "../Paint/keybindings";
+import { exportPdf } from "../Paint/pdf";
+import { exportSvg } from "../Paint/svg";
+import {
+  applyOperations,
+  CollabMessage,
+  PEER_COLORS,
+  ShapeOperation,
+  useCollaboration,
+} from "./collab";
+import {
+  IMAGE_FILE_ACCEPT,
+  readImageFile,
+  readTextFile,
+  validateFile,
+} from "./files";
+import { useHistory } from "./history";
+import {
+  clearSession,
+  DocumentSummary,
+  deleteDocument,
+  listDocuments,
+  loadDocument,
+  loadSession,
+  saveDocument,
+  saveSession,
+  Session,
+} from "./library";
+import {
+  createBroadcastChannelTransport,
+  createWebSocketTransport,
+  SyncTransport,
+} from "./transport";
+
+const RECENT_COLORS_LIMIT = 8;
+const DEFAULT_DOCUMENT_NAME = "Untitled";
+/** Milliseconds without changes before the working copy is autosaved. */
+const AUTOSAVE_DELAY = 500;
+/** Pixel size of the shape previews in the layers panel. */
+const THUMBNAIL_SIZE = 40;
+/** Pixel size of the drawing previews in the document library. */
+const DOCUMENT_THUMBNAIL_SIZE = 96;
+/** Milliseconds without changes before the shape previews are updated. */
+const THUMBNAIL_DELAY = 300;
+
+type PaintDocument = Size & {
+  shapes: PaintShape[];
+  bgImg?: HTMLImageElement;
+  background: BackgroundImage;
+  calibration: Calibration;
+};
+
+const TOOLS: { mode: CanvasDrawMode; title: string; keys: string[] }[] = [
+  { mode: "SELECT", title: "Select", keys: ["V"] },
+  { mode: "RECT", title: "Rectangle", keys: ["R"] },
+  { mode: "ELLIPSE", title: "Ellipse", keys: ["E"] },
+  { mode: "TEXT_S", title: "Text", keys: ["T"] },
+  { mode: "TEXT_L", title: "Large text", keys: ["Shift+T"] },
+  { mode: "PEN", title: "Pen", keys: ["P"] },
+  { mode: "HIGHLIGHTER", title: "Highlighter", keys: ["H"] },
+  { mode: "LINE", title: "Line", keys: ["L"] },
+  { mode: "ARROW", title: "Arrow", keys: ["A"] },
+  { mode: "POLYGON", title: "Polygon", keys: ["Shift+P"] },
+  { mode: "MEASURE", title: "Measure", keys: ["M"] },
+  { mode: "CALIBRATE", title: "Calibrate", keys: [] },
+  { mode: "REGION", title: "Export region", keys: [] },
+];
+
+/** Pixels that Shift+arrow keys move the selection. */
+const NUDGE_FAR = 10;
+const NUDGE_DIRECTIONS = [
+  { key: "ArrowLeft", title: "left", dx: -1, dy: 0 },
+  { key: "ArrowRight", title: "right", dx: 1, dy: 0 },
+  { key: "ArrowUp", title: "up", dx: 0, dy: -1 },
+  { key: "ArrowDown", title: "down", dx: 0, dy: 1 },
+];
+
+const ALIGN_TITLES: { [command in AlignCommand]: string } = {
+  LEFT: "Align left",
+  CENTER: "Align centers",
+  RIGHT: "Align right",
+  TOP: "Align top",
+  MIDDLE: "Align middles",
+  BOTTOM: "Align bottom",
+};
+
+const EMPTY_DOCUMENT: PaintDocument = {
+  ...DEFAULT_DOCUMENT_SIZE,
+  shapes: [],
+  background: DEFAULT_BACKGROUND,
+  calibration: DEFAULT_CALIBRATION,
+};
+
+function toDocumentJSON({ bgImg, background, ...doc }: PaintDocument) {
+  return serializeDocument({
+    ...doc,
+    background: bgImg ? { ...background, src: bgImg.src } : undefined,
+  });
+}
 
 const Main = () => {
-  const [readonly, setReadonly] = useState(false);
   const [drawMode, setDrawMode] = useState<CanvasDrawMode>("SELECT");
-  const [penColor, setPenColor] = useState<PenColor>("ORANGE");
-  const [shapes, setShapes] = useState<PaintShape[]>([]);
-  const [bgImg, setBgImg] = useState<HTMLImageElement>();
+  const [penStyle, setPenStyle] = useState<PaintStyle>(DEFAULT_PAINT_STYLE);
+  const [recentColors, setRecentColors] = useState<string[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [thumbnails, setThumbnails] = useState<{ [key: string]: string }>({});
+  /** The shape each preview was rendered from. */
+  const thumbnailShapes = useRef(new Map<string, PaintShape>());
+  const [importErrors, setImportErrors] = useState<ValidationError[]>([]);
+  const [arrowheadSize, setArrowheadSize] = useState(10);
+  const [snapRotation, setSnapRotation] = useState(false);
+  const [snapOptions, setSnapOptions] =
+    useState<SnapOptions>(DEFAULT_SNAP_OPTIONS);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(
+    DEFAULT_EXPORT_OPTIONS
+  );
+  const [exportRegion, setExportRegion] = useState<Box>();
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const stageSize = useRef<Size>();
+  const history = useHistory<PaintDocument>(EMPTY_DOCUMENT);
+  const { shapes, bgImg, background, calibration, width, height } =
+    history.state;
+  const documentSize = useMemo(() => ({ width, height }), [width, height]);
+  const documentSizeRef = useRef(documentSize);
+  documentSizeRef.current = documentSize;
+  const { commit, undo, redo, reset, rebase } = history;
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [documentId, setDocumentId] = useState<string>();
+  const [documentName, setDocumentName] = useState(DEFAULT_DOCUMENT_NAME);
+  // The state last saved to the library; unset when it was never saved.
+  const [savedDoc, setSavedDoc] = useState<PaintDocument | undefined>(
+    EMPTY_DOCUMENT
+  );
+  const [pendingSession, setPendingSession] = useState<Session>();
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [storageError, setStorageError] = useState<string>();
+  const [fileError, setFileError] = useState<string>();
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [showRulers, setShowRulers] = useState(true);
+  const [calibrationPixels, setCalibrationPixels] = useState<number>();
+  const [helpOpen, setHelpOpen] = useState(false);
+  const dirty = history.state !== savedDoc;
   const fileEl = useRef<HTMLInputElement>(null);
+  const imageFileEl = useRef<HTMLInputElement>(null);
   const textAreaEl = useRef<HTMLTextAreaElement>(null);
   const stageEl = useRef<Konva.Stage>(null);
-  const [bgImgRotation, setBgImgRotation] = useState(0);
+  const [collabRoom, setCollabRoom] = useState("");
+  const [userName, setUserName] = useState(
+    () => `Guest ${Math.floor(Math.random() * 1000)}`
+  );
+  const [userColor] = useState(
+    () => PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)]
+  );
+  const [transport, setTransport] = useState<SyncTransport<CollabMessage>>();
+  const [collabError, setCollabError] = useState<string>();
+
+  const handleRemoteOperations = useCallback(
+    (operations: ShapeOperation[]) => {
+      rebase((prevDoc, presentDoc) => ({
+        ...prevDoc,
+        shapes: applyOperations(prevDoc.shapes, operations, presentDoc.shapes),
+      }));
+
+      const deletedKeys = operations.flatMap((operation) =>
+        operation.type === "DELETE" ? [operation.key] : []
+      );
+      if (deletedKeys.length > 0) {
+        setSelectedKeys((prevKeys) =>
+          prevKeys.filter((key) => !deletedKeys.includes(key))
+        );
+      }
+    },
+    [rebase]
+  );
+
+  const collab = useCollaboration({
+    transport,
+    name: userName,
+    color: userColor,
+    shapes,
+    selectedKeys,
+    onRemoteOperations: handleRemoteOperations,
+  });
+
+  useEffect(
+    () => () => {
+      transport?.close();
+    },
+    [transport]
+  );
+
+  const handleCollabJoin = () => {
+    // Without a relay server only tabs of this browser can join each other.
+    const url = process.env.REACT_APP_COLLAB_URL;
+    try {
+      setTransport(
+        url
+          ? createWebSocketTransport(url, collabRoom.trim())
+          : createBroadcastChannelTransport(collabRoom.trim())
+      );
+      setCollabError(undefined);
+    } catch (e) {
+      setCollabError((e as Error).message);
+    }
+  };
+
+  const handleCollabLeave = () => {
+    setTransport(undefined);
+  };
+
+  const handlePaletteClose = useCallback(() => {
+    setPaletteOpen(false);
+  }, []);
+
+  const handleHelpClose = useCallback(() => {
+    setHelpOpen(false);
+  }, []);
 
   const handleDrawModeChange = (drawMode: CanvasDrawMode) => () => {
     setDrawMode(drawMode);
   };
 
-  const handleCanvasDrawEnd = useCallback((newShape?: PaintShape) => {
-    setDrawMode("SELECT");
-    if (newShape) setShapes((prevShapes) => prevShapes.concat(newShape));
-  }, []);
+  const handleCanvasDrawEnd = useCallback(
+    (newShape?: PaintShape) => {
+      // Freehand modes stay active so several strokes can be drawn in a row.
+      setDrawMode((prevDrawMode) =>
+        prevDrawMode === "PEN" || prevDrawMode === "HIGHLIGHTER"
+          ? prevDrawMode
+          : "SELECT"
+      );
+      if (newShape) {
+        commit((prevDoc) => ({
+          ...prevDoc,
+          shapes: prevDoc.shapes.concat(newShape),
+        }));
+      }
+    },
+    [commit]
+  );
 
-  const handleShapeMoveEnd = useCallback((index: number, pos: Position) => {
-    setShapes((prevShapes) => {
-      const newShapes = [...prevShapes];
+  const handleShapesAdd = useCallback(
+    (newShapes: PaintShape[]) => {
+      commit((prevDoc) => ({
+        ...prevDoc,
+        shapes: prevDoc.shapes.concat(newShapes),
+      }));
+    },
+    [commit]
+  );
 
-      newShapes[index].x = pos.x;
-      newShapes[index].y = pos.y;
+  const handleShapesDelete = useCallback(
+    (keys: string[]) => {
+      commit((prevDoc) => ({
+        ...prevDoc,
+        shapes: prevDoc.shapes.filter(
+          (shape) => shape.locked || !keys.includes(shape.key)
+        ),
+      }));
+    },
+    [commit]
+  );
 
-      return newShapes;
-    });
-  }, []);
+  const replaceShapes = useCallback(
+    (changedShapes: PaintShape[], mergeKey?: string) => {
+      commit(
+        (prevDoc) => ({
+          ...prevDoc,
+          shapes: prevDoc.shapes.map(
+            (shape) =>
+              changedShapes.find((changed) => changed.key === shape.key) ??
+              shape
+          ),
+        }),
+        mergeKey
+      );
+    },
+    [commit]
+  );
 
-  const handleShapeResizeEnd = useCallback((index: number, size: Size) => {
-    setShapes((prevShapes) => {
-      const newShapes = [...prevShapes];
+  const handleShapesChange = useCallback(
+    (changedShapes: PaintShape[]) => {
+      replaceShapes(changedShapes);
+    },
+    [replaceShapes]
+  );
 
-      const targetShape = newShapes[index];
+  const handleShapePropertyChange = useCallback(
+    (changedShape: PaintShape, field: string) => {
+      // Typing a number digit by digit produces a single undo step.
+      replaceShapes([changedShape], `property-${changedShape.key}-${field}`);
+    },
+    [replaceShapes]
+  );
 
-      if (isPaintRect(targetShape)) {
-        targetShape.width = size.width;
-        targetShape.height = size.height;
-      } else if (isPaintEllipse(targetShape)) {
-        targetShape.radiusX = Math.floor(size.width / 2);
-        targetShape.radiusY = Math.floor(size.height / 2);
-      } else if (isPaintText(targetShape)) {
-        targetShape.width = size.width;
-      }
+  const handleLayerSelect = (key: string, toggle: boolean) => {
+    setSelectedKeys((prevKeys) => {
+      if (!toggle) return [key];
 
-      return newShapes;
+      return prevKeys.includes(key)
+        ? prevKeys.filter((prevKey) => prevKey !== key)
+        : prevKeys.concat(key);
     });
-  }, []);
+  };
+
+  const handleLayerChange = (changedShape: PaintShape) => {
+    replaceShapes([changedShape]);
+    // Hidden and locked shapes cannot stay selected.
+    if (!changedShape.visible || changedShape.locked) {
+      setSelectedKeys((prevKeys) =>
+        prevKeys.filter((key) => key !== changedShape.key)
+      );
+    }
+  };
+
+  const handleLayerMove = (key: string, index: number) => {
+    commit((prevDoc) => ({
+      ...prevDoc,
+      shapes: moveShape(prevDoc.shapes, key, index),
+    }));
+  };
+
+  const handleShapeOrder = (command: ShapeOrderCommand) => {
+    commit((prevDoc) => ({
+      ...prevDoc,
+      shapes: reorderShapes(prevDoc.shapes, selectedKeys, command),
+    }));
+  };
+
+  const handleGroup = useCallback(() => {
+    const grouped = groupShapes(shapes, selectedKeys);
+    if (!grouped) return;
+
+    commit((prevDoc) => ({ ...prevDoc, shapes: grouped.shapes }));
+    setSelectedKeys([grouped.group.key]);
+  }, [commit, selectedKeys, shapes]);
+
+  const handleUngroup = useCallback(() => {
+    const ungrouped = ungroupShapes(shapes, selectedKeys);
+    if (ungrouped.childKeys.length <= 0) return;
+
+    commit((prevDoc) => ({ ...prevDoc, shapes: ungrouped.shapes }));
+    setSelectedKeys(ungrouped.childKeys);
+  }, [commit, selectedKeys, shapes]);
 
   const handleUploadImageClick = () => {
     fileEl.current?.click();
   };
 
-  const handleTextInput = useCallback((index: number, char: string) => {
-    setShapes((prevShapes) => {
-      const newShapes = [...prevShapes];
+  const handleAddImageClick = () => {
+    imageFileEl.current?.click();
+  };
 
-      const target = newShapes[index];
-      if (isPaintText(target)) {
-        if (char === "Backspace") {
-          target.text = target.text.substring(0, target.text.length - 1);
-        } else {
-          target.text += char;
-        }
+  /** Fails when the background image of the document cannot be loaded. */
+  const loadPaintDocument = useCallback(
+    async ({
+      version,
+      background,
+      ...doc
+    }: SerializedDocument): Promise<PaintDocument> => {
+      if (!background) return { ...doc, background: DEFAULT_BACKGROUND };
+
+      const { src, ...settings } = background;
+      const image = await loadImage(src).catch(() => {
+        // The path lets the import errors point at the field.
+        throw Object.assign(
+          new Error("The background image could not be loaded."),
+          { path: "background.src" }
+        );
+      });
+      return { ...doc, bgImg: image, background: settings };
+    },
+    []
+  );
+
+  /**
+   * Replaces the drawing with a JSON document. Invalid documents are listed in
+   * the import errors, while failing to load the document rejects.
+   */
+  const importDocumentJSON = useCallback(
+    async (json: string) => {
+      const result = parseDocument(json);
+      if (!result.ok) {
+        setImportErrors(result.errors);
+        return;
       }
 
-      return newShapes;
-    });
+      setImportErrors([]);
+      setSelectedKeys([]);
+
+      const importedDoc = await loadPaintDocument(result.document);
+      commit(() => importedDoc);
+    },
+    [commit, loadPaintDocument]
+  );
+
+  const runFileTask = useCallback((task: () => Promise<void>) => {
+    task().then(
+      () => setFileError(undefined),
+      (e: Error) => setFileError(e.message)
+    );
   }, []);
 
+  /**
+   * Adds image files as image shapes, centered on `position` or the document,
+   * and opens a JSON document in place of the drawing.
+   */
+  const handleFilesAdd = useCallback(
+    (files: File[], position?: Position) => {
+      runFileTask(async () => {
+        const kinds = files.map((file) =>
+          validateFile(file, ["IMAGE", "DOCUMENT"])
+        );
+        const documentFile = files.find((_, idx) => kinds[idx] === "DOCUMENT");
+        if (documentFile) {
+          if (files.length > 1) {
+            throw new Error("Documents can only be opened one at a time.");
+          }
+          await importDocumentJSON(await readTextFile(documentFile));
+          return;
+        }
+
+        const images = await Promise.all(files.map(readImageFile));
+        const newShapes = images.map(({ src, image }, idx) => {
+          const shape = createPaintImage(image, src, documentSize);
+          const center = position ?? {
+            x: shape.x + shape.width / 2,
+            y: shape.y + shape.height / 2,
+          };
+          // Several images cascade like pasted shapes.
+          return {
+            ...shape,
+            x: center.x - shape.width / 2 + idx * PASTE_OFFSET,
+            y: center.y - shape.height / 2 + idx * PASTE_OFFSET,
+          };
+        });
+        commit((prevDoc) => ({
+          ...prevDoc,
+          shapes: prevDoc.shapes.concat(newShapes),
+        }));
+        setDrawMode("SELECT");
+        setSelectedKeys(newShapes.map((shape) => shape.key));
+      });
+    },
+    [commit, documentSize, importDocumentJSON, runFileTask]
+  );
+
   const handleFileChange: ChangeEventHandler<HTMLInputElement> = (e) => {
     if (!e.target.files || e.target.files.length <= 0) {
       return;
     }
 
     const file = e.target.files[0];
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const image = new window.Image();
-      image.src = (reader.result as string) || "";
-      image.addEventListener("load", () => {
-        setBgImg(image);
-      });
-    };
-    reader.readAsDataURL(file);
+    e.target.value = "";
+    runFileTask(async () => {
+      validateFile(file, ["IMAGE"]);
+      const { image } = await readImageFile(file);
+
+      // The document takes the size of the image it annotates.
+      commit((prevDoc) => ({
+        ...prevDoc,
+        bgImg: image,
+        background: DEFAULT_BACKGROUND,
+        width: image.width,
+        height: image.height,
+      }));
+      if (stageSize.current) {
+        setViewport(
+          fitViewport(
+            { x: 0, y: 0, width: image.width, height: image.height },
+            stageSize.current
+          )
+        );
+      }
+    });
+  };
+
+  const handleImageFileChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    if (!e.target.files || e.target.files.length <= 0) {
+      return;
+    }
+
+    const files = Array.from(e.target.files);
+    e.target.value = "";
+    handleFilesAdd(files);
+  };
+
+  const handlePenStyleChange = (changes: Partial<PaintStyle>) => {
+    setPenStyle((prevStyle) => ({ ...prevStyle, ...changes }));
+
+    if (selectedKeys.length <= 0) return;
+
+    // Dragging a color or opacity slider produces a single undo step.
+    commit(
+      (prevDoc) => ({
+        ...prevDoc,
+        shapes: prevDoc.shapes.map((shape) =>
+          selectedKeys.includes(shape.key) ? applyStyle(shape, changes) : shape
+        ),
+      }),
+      `style-${Object.keys(changes).join()}-${selectedKeys.join()}`
+    );
+  };
+
+  const handleColorUsed = (color: string) => {
+    setRecentColors((prevColors) =>
+      [color]
+        .concat(prevColors.filter((prevColor) => prevColor !== color))
+        .slice(0, RECENT_COLORS_LIMIT)
+    );
+  };
+
+  const handleSnapRotationChange = () => {
+    setSnapRotation((prevSnapRotation) => !prevSnapRotation);
+  };
+
+  const handleSnapOptionsChange = (changes: Partial<SnapOptions>) => {
+    setSnapOptions((prevOptions) => ({ ...prevOptions, ...changes }));
+  };
+
+  const handleBackgroundChange = (changes: Partial<BackgroundImage>) => {
+    // Dragging a slider or typing a value produces a single undo step.
+    commit(
+      (prevDoc) => ({
+        ...prevDoc,
+        background: { ...prevDoc.background, ...changes },
+      }),
+      `background-${Object.keys(changes).join()}`
+    );
+  };
+
+  const handleCalibrationChange = (newCalibration: Calibration) => {
+    commit((prevDoc) => ({ ...prevDoc, calibration: newCalibration }));
+    setCalibrationPixels(undefined);
+  };
+
+  const handleCalibrationCancel = () => {
+    setCalibrationPixels(undefined);
+  };
+
+  const handleDocumentSizeChange = (field: keyof Size) => (value: number) => {
+    commit(
+      (prevDoc) => ({ ...prevDoc, [field]: value }),
+      `document-size-${field}`
+    );
+  };
+
+  const handleDocumentSizeFromImage = () => {
+    if (!bgImg) return;
+
+    // The cropped image as rotated, at its natural size.
+    const bounds = getRotatedImageBox(
+      getImageCrop(bgImg, background),
+      background.rotation
+    );
+    commit((prevDoc) => ({
+      ...prevDoc,
+      width: Math.round(bounds.width),
+      height: Math.round(bounds.height),
+    }));
+  };
+
+  const handleStageSizeChange = useCallback((size: Size) => {
+    const prevSize = stageSize.current;
+    stageSize.current = size;
+
+    setViewport((prevViewport) =>
+      prevSize
+        ? resizeViewport(prevViewport, prevSize, size, documentSizeRef.current)
+        : fitViewport({ x: 0, y: 0, ...documentSizeRef.current }, size)
+    );
+  }, []);
+
+  const handleZoom = (factor: number) => () => {
+    if (!stageSize.current) return;
+
+    const { width, height } = stageSize.current;
+    setViewport((prevViewport) =>
+      zoomViewport(prevViewport, prevViewport.scale * factor, {
+        x: width / 2,
+        y: height / 2,
+      })
+    );
+  };
+
+  const handleZoomReset = () => {
+    if (!stageSize.current) return;
+
+    const { width, height } = stageSize.current;
+    setViewport((prevViewport) =>
+      zoomViewport(prevViewport, 1, { x: width / 2, y: height / 2 })
+    );
+  };
+
+  const handleZoomFit = () => {
+    if (!stageSize.current) return;
+
+    const box = bgImg
+      ? getBackgroundBox(bgImg, background, documentSize)
+      : { x: 0, y: 0, ...documentSize };
+    setViewport(fitViewport(box, stageSize.current));
+  };
+
+  const handleExportOptionsChange = (changes: Partial<ExportOptions>) => {
+    setExportOptions((prevOptions) => ({ ...prevOptions, ...changes }));
+  };
+
+  const handleExportRegionChange = (region?: Box) => {
+    setExportRegion(region);
+    setExportOptions((prevOptions) => ({
+      ...prevOptions,
+      area: region ? "REGION" : "CANVAS",
+    }));
   };
 
-  const handlePenColorChange = (penColor: PenColor) => () => {
-    setPenColor(penColor);
+  const getCurrentExportBox = () =>
+    getExportBox(documentSize, exportOptions.area, {
+      bgImg,
+      background,
+      region: exportRegion,
+    });
+
+  /**
+   * Exports read back the pixels of the images they draw, which browsers
+   * forbid for images from sites that do not allow it.
+   */
+  const runExportTask = (task: (stage: Konva.Stage) => void) => {
+    const stage = stageEl.current;
+    if (!stage) return;
+
+    runFileTask(async () => {
+      try {
+        task(stage);
+      } catch (e) {
+        if (e instanceof DOMException && e.name === "SecurityError") {
+          throw new Error(
+            "An image from another site does not allow exporting it."
+          );
+        }
+        throw e;
+      }
+    });
   };
 
-  const handleReadonlyChange = () => {
-    setReadonly((prevReadOnly) => !prevReadOnly);
+  const handleImageExport = () => {
+    runExportTask((stage) => {
+      const { extension } = RASTER_FORMATS[exportOptions.format];
+      downloadUrl(
+        exportRaster(stage, getCurrentExportBox(), exportOptions),
+        `canvas.${extension}`
+      );
+    });
   };
 
-  const rotateBackgroundImage = () => {
-    setBgImgRotation((prevRotation) => (prevRotation + 90) % 360);
+  const handleSVGExport = () => {
+    runExportTask((stage) => {
+      const svg = exportSvg({
+        box: getCurrentExportBox(),
+        documentSize,
+        bgImg: exportOptions.annotationsOnly ? undefined : bgImg,
+        background,
+        shapes,
+        calibration,
+        getTextLayout: getStageTextLayout(stage),
+      });
+      downloadBlob(new Blob([svg], { type: "image/svg+xml" }), "canvas.svg");
+    });
   };
 
-  const downloadCanvasAsImage = () => {
-    if (!stageEl.current) return;
-    const a = document.createElement("a");
-    a.href = stageEl.current.toDataURL({
-      quality: 0.8,
+  const handlePDFExport = () => {
+    runExportTask((stage) => {
+      const pdf = exportPdf({
+        box: getCurrentExportBox(),
+        documentSize,
+        bgImg: exportOptions.annotationsOnly ? undefined : bgImg,
+        background,
+        shapes,
+        calibration,
+        getTextLayout: getStageTextLayout(stage),
+      });
+      downloadBlob(pdf, "canvas.pdf");
     });
-    a.download = "canvas.jpeg";
-    a.click();
-    a.remove();
   };
 
   const handleJSONExport = () => {
     if (!textAreaEl.current) return;
 
-    textAreaEl.current.value = JSON.stringify({
-      bgImgSrc: bgImg?.src,
-      bgImgRotation,
-      shapes,
-    });
+    textAreaEl.current.value = toDocumentJSON(history.state);
+    setImportErrors([]);
   };
 
   const handleJSONImport = () => {
     if (!textAreaEl.current) return;
 
-    try {
-      const data: {
-        bgImgSrc?: string;
-        bgImgRotation: number;
-        shapes: PaintShape[];
-      } = JSON.parse(textAreaEl.current.value);
-
-      if (data.bgImgSrc) {
-        const image = new window.Image();
-        image.src = data.bgImgSrc;
-        image.addEventListener("load", () => {
-          setBgImg(image);
-        });
+    importDocumentJSON(textAreaEl.current.value).catch(
+      (e: Error & Partial<ValidationError>) => {
+        setImportErrors([{ path: e.path ?? "", message: e.message }]);
+      }
+    );
+  };
+
+  const runStorageTask = useCallback((task: () => Promise<void>) => {
+    task().then(
+      () => setStorageError(undefined),
+      (e: Error) => setStorageError(e.message)
+    );
+  }, []);
+
+  const refreshDocuments = useCallback(async () => {
+    setDocuments(await listDocuments());
+  }, []);
+
+  /**
+   * Replaces the drawing and its undo history.
+   *
+   * @param saved Whether the drawing matches its copy in the library.
+   */
+  const openDocument = useCallback(
+    async (
+      json: string,
+      id: string | undefined,
+      name: string,
+      saved: boolean
+    ) => {
+      const result = parseDocument(json);
+      if (!result.ok) {
+        throw new Error(`"${name}" is not a valid drawing.`);
       }
 
-      setBgImgRotation(data.bgImgRotation);
-      setShapes(data.shapes);
-    } catch {
-      alert("Falied to import JSON");
-    }
+      const doc = await loadPaintDocument(result.document);
+      reset(doc);
+      setSavedDoc(saved ? doc : undefined);
+      setDocumentId(id);
+      setDocumentName(name);
+      setSelectedKeys([]);
+    },
+    [loadPaintDocument, reset]
+  );
+
+  const openStoredDocument = useCallback(
+    async (id: string) => {
+      const stored = await loadDocument(id);
+      if (!stored) throw new Error("The drawing no longer exists.");
+
+      await openDocument(stored.json, stored.id, stored.name, true);
+    },
+    [openDocument]
+  );
+
+  const confirmDiscard = () =>
+    !dirty || window.confirm("Discard unsaved changes to the current drawing?");
+
+  const handleDocumentNew = () => {
+    if (!confirmDiscard()) return;
+
+    reset(EMPTY_DOCUMENT);
+    setSavedDoc(EMPTY_DOCUMENT);
+    setDocumentId(undefined);
+    setDocumentName(DEFAULT_DOCUMENT_NAME);
+    setSelectedKeys([]);
+    // Nothing to restore until the new drawing is autosaved.
+    runStorageTask(clearSession);
+  };
+
+  const handleDocumentSave = () => {
+    const savingDoc = history.state;
+    const id = documentId ?? uuidv4();
+    const now = Date.now();
+    const stage = stageEl.current;
+    const thumbnail = stage
+      ? getDocumentThumbnail(stage, documentSize, DOCUMENT_THUMBNAIL_SIZE)
+      : undefined;
+
+    runStorageTask(async () => {
+      const stored = await loadDocument(id);
+      await saveDocument({
+        id,
+        name: documentName,
+        createdAt: stored?.createdAt ?? now,
+        updatedAt: now,
+        thumbnail,
+        json: toDocumentJSON(savingDoc),
+      });
+      setDocumentId(id);
+      setSavedDoc(savingDoc);
+      await refreshDocuments();
+    });
+  };
+
+  const handleDocumentOpen = (id: string) => {
+    if (!confirmDiscard()) return;
+
+    runStorageTask(() => openStoredDocument(id));
+  };
+
+  const handleDocumentRename = (id: string, name: string) => {
+    runStorageTask(async () => {
+      const stored = await loadDocument(id);
+      if (!stored) return;
+
+      await saveDocument({ ...stored, name });
+      if (id === documentId) setDocumentName(name);
+      await refreshDocuments();
+    });
+  };
+
+  const handleDocumentDuplicate = (id: string) => {
+    runStorageTask(async () => {
+      const stored = await loadDocument(id);
+      if (!stored) return;
+
+      const now = Date.now();
+      await saveDocument({
+        ...stored,
+        id: uuidv4(),
+        name: `${stored.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await refreshDocuments();
+    });
+  };
+
+  const handleDocumentDelete = (id: string) => {
+    const summary = documents.find((summary) => summary.id === id);
+    if (!window.confirm(`Delete "${summary?.name}"?`)) return;
+
+    runStorageTask(async () => {
+      await deleteDocument(id);
+      // The open drawing stays, but now only exists as the working copy.
+      if (id === documentId) {
+        setDocumentId(undefined);
+        setSavedDoc(undefined);
+      }
+      await refreshDocuments();
+    });
+  };
+
+  const handleSessionRestore = () => {
+    if (!pendingSession) return;
+
+    const { json, documentId, name } = pendingSession;
+    // On failure the session stays pending, so it can still be discarded.
+    runStorageTask(async () => {
+      await openDocument(json, documentId, name, false);
+      setPendingSession(undefined);
+      setSessionChecked(true);
+    });
+  };
+
+  const handleSessionDiscard = () => {
+    const id = pendingSession?.documentId;
+
+    setPendingSession(undefined);
+    runStorageTask(async () => {
+      try {
+        if (id) await openStoredDocument(id);
+      } finally {
+        setSessionChecked(true);
+      }
+    });
+  };
+
+  // Reopen the last drawing, or ask first when it had unsaved changes.
+  useEffect(() => {
+    runStorageTask(async () => {
+      await refreshDocuments();
+
+      const session = await loadSession();
+      if (session?.dirty) {
+        setPendingSession(session);
+        return;
+      }
+
+      // Autosave starts even when the last drawing cannot be opened.
+      try {
+        if (session?.documentId) {
+          await openStoredDocument(session.documentId);
+        }
+      } finally {
+        setSessionChecked(true);
+      }
+    });
+  }, [openStoredDocument, refreshDocuments, runStorageTask]);
+
+  // Autosave the working copy, unless a previous one still awaits restoring.
+  useEffect(() => {
+    if (!sessionChecked) return;
+
+    const timer = setTimeout(() => {
+      runStorageTask(() =>
+        saveSession({
+          documentId,
+          name: documentName,
+          json: toDocumentJSON(history.state),
+          savedAt: Date.now(),
+          dirty,
+        })
+      );
+    }, AUTOSAVE_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [
+    dirty,
+    documentId,
+    documentName,
+    history.state,
+    runStorageTask,
+    sessionChecked,
+  ]);
+
+  // Konva has drawn the changed shapes by the time effects run. Shapes are
+  // replaced on every change, so only new objects need a new preview.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const stage = stageEl.current;
+      if (!stage) return;
+
+      const rendered = thumbnailShapes.current;
+      const changedUrls = new Map<string, string | undefined>();
+      shapes.forEach((shape) => {
+        if (rendered.get(shape.key) === shape) return;
+
+        changedUrls.set(
+          shape.key,
+          getShapeThumbnail(stage, shape.key, THUMBNAIL_SIZE)
+        );
+        rendered.set(shape.key, shape);
+      });
+      const keys = new Set(shapes.map((shape) => shape.key));
+      const removed = Array.from(rendered.keys()).filter(
+        (key) => !keys.has(key)
+      );
+      removed.forEach((key) => rendered.delete(key));
+      if (changedUrls.size <= 0 && removed.length <= 0) return;
+
+      setThumbnails((prevThumbnails) => {
+        const newThumbnails: { [key: string]: string } = {};
+        shapes.forEach((shape) => {
+          const url = changedUrls.has(shape.key)
+            ? changedUrls.get(shape.key)
+            : prevThumbnails[shape.key];
+          if (url) newThumbnails[shape.key] = url;
+        });
+        return newThumbnails;
+      });
+    }, THUMBNAIL_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [shapes]);
+
+  const selectedShapes = shapes.filter((shape) =>
+    selectedKeys.includes(shape.key)
+  );
+  const movableShapes = selectedShapes.filter((shape) => !shape.locked);
+
+  const handleSnapGridToggle = () => {
+    handleSnapOptionsChange({ grid: !snapOptions.grid });
   };
 
+  const handleAlign = (command: AlignCommand) => {
+    const stage = stageEl.current;
+    if (!stage || movableShapes.length < 2) return;
+
+    replaceShapes(
+      alignShapes(movableShapes, getShapeBoxes(stage, movableShapes), command)
+    );
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    const stage = stageEl.current;
+    if (!stage || movableShapes.length < 3) return;
+
+    replaceShapes(
+      distributeShapes(movableShapes, getShapeBoxes(stage, movableShapes), axis)
+    );
+  };
+
+  const handleNudge = (dx: number, dy: number) => () => {
+    if (movableShapes.length <= 0) return;
+
+    // Holding an arrow key produces a single undo step.
+    replaceShapes(
+      movableShapes.map((shape) => ({
+        ...shape,
+        x: shape.x + dx,
+        y: shape.y + dy,
+      })),
+      `nudge-${movableShapes.map((shape) => shape.key).join()}`
+    );
+  };
+
+  // Bindings are only rebuilt when what is enabled changes, and run the
+  // handlers of the latest render.
+  const latestActions = {
+    handleDrawModeChange,
+    undo,
+    redo,
+    handleGroup,
+    handleUngroup,
+    handleNudge,
+    handleAlign,
+    handleDistribute,
+    handleZoom,
+    handleZoomReset,
+    handleZoomFit,
+    handleSnapGridToggle,
+    handleDocumentNew,
+    handleDocumentSave,
+    handleUploadImageClick,
+    handleAddImageClick,
+    handleImageExport,
+    handleSVGExport,
+    handlePDFExport,
+    handleJSONExport,
+  };
+  const actions = useRef(latestActions);
+  actions.current = latestActions;
+  const { canUndo, canRedo } = history;
+  const canGroup = movableShapes.length >= 2;
+  const canUngroup = selectedShapes.some(isPaintGroup);
+  const canMove = movableShapes.length > 0;
+  const canDistribute = movableShapes.length >= 3;
+
+  const keybindings = useMemo(
+    (): Keybinding[] => [
+      ...TOOLS.map(({ mode, title, keys }) => ({
+        id: `tool-${mode}`,
+        title,
+        category: "Tools",
+        keys,
+        run: () => actions.current.handleDrawModeChange(mode)(),
+      })),
+      {
+        id: "undo",
+        title: "Undo",
+        category: "Edit",
+        keys: ["Mod+Z"],
+        enabled: canUndo,
+        run: () => actions.current.undo(),
+      },
+      {
+        id: "redo",
+        title: "Redo",
+        category: "Edit",
+        keys: ["Mod+Shift+Z", "Mod+Y"],
+        enabled: canRedo,
+        run: () => actions.current.redo(),
+      },
+      {
+        id: "group",
+        title: "Group",
+        category: "Arrange",
+        keys: ["Mod+G"],
+        enabled: canGroup,
+        run: () => actions.current.handleGroup(),
+      },
+      {
+        id: "ungroup",
+        title: "Ungroup",
+        category: "Arrange",
+        keys: ["Mod+Shift+G"],
+        enabled: canUngroup,
+        run: () => actions.current.handleUngroup(),
+      },
+      ...NUDGE_DIRECTIONS.flatMap(({ key, title, dx, dy }) => [
+        {
+          id: `nudge-${key}`,
+          title: `Nudge ${title}`,
+          category: "Arrange",
+          keys: [key],
+          enabled: canMove,
+          run: () => actions.current.handleNudge(dx, dy)(),
+        },
+        {
+          id: `nudge-${key}-far`,
+          title: `Nudge ${title} by ${NUDGE_FAR}`,
+          category: "Arrange",
+          keys: [`Shift+${key}`],
+          enabled: canMove,
+          run: () =>
+            actions.current.handleNudge(dx * NUDGE_FAR, dy * NUDGE_FAR)(),
+        },
+      ]),
+      ...(Object.keys(ALIGN_TITLES) as AlignCommand[]).map((command) => ({
+        id: `align-${command}`,
+        title: ALIGN_TITLES[command],
+        category: "Arrange",
+        keys: [],
+        enabled: canGroup,
+        run: () => actions.current.handleAlign(command),
+      })),
+      ...(["HORIZONTAL", "VERTICAL"] as DistributeAxis[]).map((axis) => ({
+        id: `distribute-${axis}`,
+        title: `Distribute ${axis.toLowerCase()}ly`,
+        category: "Arrange",
+        keys: [],
+        enabled: canDistribute,
+        run: () => actions.current.handleDistribute(axis),
+      })),
+      {
+        id: "zoom-in",
+        title: "Zoom in",
+        category: "View",
+        keys: ["="],
+        run: () => actions.current.handleZoom(ZOOM_STEP)(),
+      },
+      {
+        id: "zoom-out",
+        title: "Zoom out",
+        category: "View",
+        keys: ["-"],
+        run: () => actions.current.handleZoom(1 / ZOOM_STEP)(),
+      },
+      {
+        id: "zoom-reset",
+        title: "Zoom to 100%",
+        category: "View",
+        keys: ["0"],
+        run: () => actions.current.handleZoomReset(),
+      },
+      {
+        id: "zoom-fit",
+        title: "Zoom to fit",
+        category: "View",
+        keys: ["F"],
+        run: () => actions.current.handleZoomFit(),
+      },
+      {
+        id: "snap-grid",
+        title: "Toggle snap to grid",
+        category: "View",
+        keys: [],
+        run: () => actions.current.handleSnapGridToggle(),
+      },
+      {
+        id: "document-new",
+        title: "New document",
+        category: "File",
+        keys: [],
+        run: () => actions.current.handleDocumentNew(),
+      },
+      {
+        id: "document-save",
+        title: "Save to library",
+        category: "File",
+        keys: ["Mod+S"],
+        run: () => actions.current.handleDocumentSave(),
+      },
+      {
+        id: "upload-background",
+        title: "Upload background image",
+        category: "File",
+        keys: [],
+        run: () => actions.current.handleUploadImageClick(),
+      },
+      {
+        id: "add-image",
+        title: "Add image",
+        category: "File",
+        keys: [],
+        run: () => actions.current.handleAddImageClick(),
+      },
+      {
+        id: "export-image",
+        title: "Export as image",
+        category: "File",
+        keys: [],
+        run: () => actions.current.handleImageExport(),
+      },
+      {
+        id: "export-svg",
+        title: "Export as SVG",
+        category: "File",
+        keys: [],
+        run: () => actions.current.handleSVGExport(),
+      },
+      {
+        id: "export-pdf",
+        title: "Export as PDF",
+        category: "File",
+        keys: [],
+        run: () => actions.current.handlePDFExport(),
+      },
+      {
+        id: "export-json",
+        title: "Export as JSON",
+        category: "File",
+        keys: [],
+        run: () => actions.current.handleJSONExport(),
+      },
+      {
+        id: "command-palette",
+        title: "Show all commands",
+        category: "Help",
+        keys: ["Mod+K"],
+        enabled: !paletteOpen,
+        run: () => setPaletteOpen(true),
+      },
+      {
+        id: "shortcut-help",
+        title: "Keyboard shortcuts",
+        category: "Help",
+        keys: ["?"],
+        enabled: !helpOpen,
+        run: () => setHelpOpen(true),
+      },
+    ],
+    [
+      canDistribute,
+      canGroup,
+      canMove,
+      canRedo,
+      canUndo,
+      canUngroup,
+      helpOpen,
+      paletteOpen,
+    ]
+  );
+  useKeybindings(keybindings);
+
   return (
-    <div className="w-screen mx-auto mt-8 items-center justify-center flex flex-col gap-y-6">
-      <Paint
-        ref={stageEl}
-        bgImg={bgImg}
-        shapes={shapes}
-        drawMode={drawMode}
-        penColor={penColor}
-        readonly={readonly}
-        bgImgRotation={bgImgRotation}
-        onDrawEnd={handleCanvasDrawEnd}
-        onShapeMoveEnd={handleShapeMoveEnd}
-        onShapeResizeEnd={handleShapeResizeEnd}
-        onTextInput={handleTextInput}
-      />
-      <div className="flex justify-between items-center w-1024">
+    <div className="w-full mx-auto mt-8 px-4 items-center justify-center flex flex-col gap-y-6">
+      {paletteOpen && <CommandPalette onClose={handlePaletteClose} />}
+      {helpOpen && <ShortcutHelp onClose={handleHelpClose} />}
+      {pendingSession && (
+        <div className="w-full p-2 border border-yellow-400 bg-yellow-50 flex items-center justify-between">
+          <span>
+            Found unsaved changes to "{pendingSession.name}" from{" "}
+            {new Date(pendingSession.savedAt).toLocaleString()}.
+          </span>
+          <div className="flex gap-x-2">
+            <Button onClick={handleSessionRestore}>Restore</Button>
+            <Button onClick={handleSessionDiscard}>Discard</Button>
+          </div>
+        </div>
+      )}
+      <div className="w-full flex flex-col lg:flex-row gap-4 items-start">
+        <div className="w-full h-[75vh] min-w-0 flex-1">
+          <Paint
+            ref={stageEl}
+            bgImg={bgImg}
+            documentSize={documentSize}
+            shapes={shapes}
+            selectedKeys={selectedKeys}
+            drawMode={drawMode}
+            penStyle={penStyle}
+            background={background}
+            arrowheadSize={arrowheadSize}
+            snapRotation={snapRotation}
+            snapOptions={snapOptions}
+            onDrawEnd={handleCanvasDrawEnd}
+            onShapesChange={handleShapesChange}
+            onShapesAdd={handleShapesAdd}
+            onShapesDelete={handleShapesDelete}
+            onSelectedKeysChange={setSelectedKeys}
+            exportRegion={exportRegion}
+            onExportRegionChange={handleExportRegionChange}
+            viewport={viewport}
+            onViewportChange={setViewport}
+            onStageSizeChange={handleStageSizeChange}
+            peers={collab.peers}
+            onPointerPositionChange={collab.updateCursor}
+            onFilesDrop={handleFilesAdd}
+            onFilesPaste={handleFilesAdd}
+            calibration={calibration}
+            showRulers={showRulers}
+            onCalibrationLineDraw={setCalibrationPixels}
+          />
+        </div>
+        <div className="flex flex-col gap-y-4">
+          <DocumentLibrary
+            documents={documents}
+            currentId={documentId}
+            currentName={documentName}
+            dirty={dirty}
+            error={storageError}
+            onNew={handleDocumentNew}
+            onSave={handleDocumentSave}
+            onOpen={handleDocumentOpen}
+            onRename={handleDocumentRename}
+            onDuplicate={handleDocumentDuplicate}
+            onDelete={handleDocumentDelete}
+          />
+          <LayersPanel
+            shapes={shapes}
+            selectedKeys={selectedKeys}
+            thumbnails={thumbnails}
+            onSelect={handleLayerSelect}
+            onChange={handleLayerChange}
+            onMove={handleLayerMove}
+            onOrder={handleShapeOrder}
+          />
+          <PropertiesPanel
+            shapes={selectedShapes}
+            calibration={calibration}
+            onChange={handleShapePropertyChange}
+          />
+          <BackgroundPanel
+            background={background}
+            image={bgImg}
+            onChange={handleBackgroundChange}
+          />
+          <MeasurePanel
+            calibration={calibration}
+            calibrationPixels={calibrationPixels}
+            showRulers={showRulers}
+            onShowRulersChange={setShowRulers}
+            onCalibrationChange={handleCalibrationChange}
+            onCalibrate={handleDrawModeChange("CALIBRATE")}
+            onCalibrationCancel={handleCalibrationCancel}
+          />
+          <CollaborationPanel
+            room={collabRoom}
+            name={userName}
+            color={userColor}
+            connected={!!transport}
+            status={collab.status}
+            error={collabError}
+            peers={collab.peers}
+            onRoomChange={setCollabRoom}
+            onNameChange={setUserName}
+            onJoin={handleCollabJoin}
+            onLeave={handleCollabLeave}
+          />
+        </div>
+      </div>
+      <div className="w-full flex flex-wrap justify-between gap-4">
         <div className="flex flex-col gap-y-2">
           <div className="flex gap-x-2">
             <Button onClick={handleUploadImageClick}>Upload Image</Button>
-            <Button onClick={downloadCanvasAsImage}>Download Canvas</Button>
             <input
               type="file"
+              accept={IMAGE_FILE_ACCEPT}
               className="hidden"
               ref={fileEl}
               onChange={handleFileChange}
             />
+            <Button onClick={handleAddImageClick}>Add Image</Button>
+            <input
+              type="file"
+              accept={IMAGE_FILE_ACCEPT}
+              multiple
+              className="hidden"
+              ref={imageFileEl}
+              onChange={handleImageFileChange}
+            />
           </div>
+          {fileError && <span className="text-red-600">{fileError}</span>}
+          <ExportControls
+            options={exportOptions}
+            hasBackground={!!bgImg}
+            hasRegion={!!exportRegion}
+            onChange={handleExportOptionsChange}
+            onRegionSelect={handleDrawModeChange("REGION")}
+            onImageExport={handleImageExport}
+            onSVGExport={handleSVGExport}
+            onPDFExport={handlePDFExport}
+          />
           <div className="flex gap-x-2">
             <Button onClick={handleJSONImport}>Import JSON</Button>
             <Button onClick={handleJSONExport}>Export as JSON</Button>
           </div>
+          <div className="flex gap-x-2">
+            <Button onClick={undo} disabled={!history.canUndo}>
+              Undo
+            </Button>
+            <Button onClick={redo} disabled={!history.canRedo}>
+              Redo
+            </Button>
+            <Button onClick={handleGroup} disabled={movableShapes.length < 2}>
+              Group
+            </Button>
+            <Button
+              onClick={handleUngroup}
+              disabled={!selectedShapes.some(isPaintGroup)}
+            >
+              Ungroup
+            </Button>
+          </div>
+          <ArrangeControls
+            snapOptions={snapOptions}
+            selectedCount={movableShapes.length}
+            onSnapOptionsChange={handleSnapOptionsChange}
+            onAlign={handleAlign}
+            onDistribute={handleDistribute}
+          />
         </div>
         <div className="flex flex-col gap-y-2 self-start">
           <div className="flex gap-x-2">
+            <Button onClick={handleDrawModeChange("SELECT")}>Select</Button>
             <Button onClick={handleDrawModeChange("RECT")}>Rect</Button>
             <Button onClick={handleDrawModeChange("ELLIPSE")}>Ellipse</Button>
             <Button onClick={handleDrawModeChange("TEXT_S")}>Text(S)</Button>
             <Button onClick={handleDrawModeChange("TEXT_L")}>Text(L)</Button>
           </div>
           <div className="flex gap-x-2">
-            <ColorButton
-              color="ORANGE"
-              onClick={handlePenColorChange("ORANGE")}
-              selected={penColor === "ORANGE"}
-            />
-            <ColorButton
-              color="GREEN"
-              onClick={handlePenColorChange("GREEN")}
-              selected={penColor === "GREEN"}
+            <Button onClick={handleDrawModeChange("PEN")}>Pen</Button>
+            <Button onClick={handleDrawModeChange("HIGHLIGHTER")}>
+              Highlighter
+            </Button>
+          </div>
+          <div className="flex gap-x-2">
+            <Button onClick={handleDrawModeChange("LINE")}>Line</Button>
+            <Button onClick={handleDrawModeChange("ARROW")}>Arrow</Button>
+            <Button onClick={handleDrawModeChange("POLYGON")}>Polygon</Button>
+            <Button onClick={handleDrawModeChange("MEASURE")}>Measure</Button>
+            <div className="flex items-center">
+              <span className="mr-2">Arrowhead:</span>
+              <NumberInput
+                className="w-16"
+                min={0}
+                value={arrowheadSize}
+                onChange={setArrowheadSize}
+              />
+            </div>
+          </div>
+          <div className="flex gap-x-2 items-center">
+            <Button onClick={handleZoom(1 / ZOOM_STEP)}>-</Button>
+            <span className="w-12 text-center">
+              {Math.round(viewport.scale * 100)}%
+            </span>
+            <Button onClick={handleZoom(ZOOM_STEP)}>+</Button>
+            <Button onClick={handleZoomReset}>100%</Button>
+            <Button onClick={handleZoomFit}>Fit</Button>
+          </div>
+          <div className="flex gap-x-2 items-center">
+            <span>Document:</span>
+            <NumberInput
+              min={1}
+              value={width}
+              onChange={handleDocumentSizeChange("width")}
             />
-            <ColorButton
-              color="PURPLE"
-              onClick={handlePenColorChange("PURPLE")}
-              selected={penColor === "PURPLE"}
+            <span>x</span>
+            <NumberInput
+              min={1}
+              value={height}
+              onChange={handleDocumentSizeChange("height")}
             />
-            <Button onClick={rotateBackgroundImage}>Rotate</Button>
+            <Button onClick={handleDocumentSizeFromImage} disabled={!bgImg}>
+              Match Image
+            </Button>
+          </div>
+          <div className="flex gap-x-2">
             <div className="flex items-end">
-              <span className="mr-2">Readonly:</span>
-              <Checkbox checked={readonly} onChange={handleReadonlyChange} />
+              <span className="mr-2">Snap rotation:</span>
+              <Checkbox
+                checked={snapRotation}
+                onChange={handleSnapRotationChange}
+              />
             </div>
           </div>
+          <StyleControls
+            style={penStyle}
+            recentColors={recentColors}
+            onChange={handlePenStyleChange}
+            onColorUsed={handleColorUsed}
+          />
         </div>
       </div>
-      <div className="w-1024">
+      <div className="w-full">
         <textarea
           ref={textAreaEl}
           className="w-full h-16 border border-gray-500 resize-none"
         />
+        {importErrors.length > 0 && (
+          <div className="text-red-600">
+            <span className="font-bold">Failed to import JSON:</span>
+            <ul className="list-disc list-inside">
+              {importErrors.map((error, errorIdx) => (
+                <li key={errorIdx}>
+                  {error.path && <code>{error.path}</code>} {error.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,156 @@
+const DB_NAME = "react-konvajs-example";
+const DB_VERSION = 2;
+const DOCUMENT_STORE = "documents";
+const SUMMARY_STORE = "summaries";
+const SESSION_STORE = "session";
+const SESSION_KEY = "current";
+
+/**
+ * A drawing in the document library. `json` is the output of
+ * `serializeDocument`, background image included as a data URL, so stored
+ * drawings go through the same validation and migrations as imported JSON.
+ */
+export type StoredDocument = DocumentSummary & { json: string };
+
+/**
+ * What the library lists of a drawing. Kept in a store of its own, so
+ * listing does not read every drawing with its background image.
+ */
+export type DocumentSummary = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Small JPEG data URL of the drawing, if it could be rendered. */
+  thumbnail?: string;
+};
+
+/** The working copy of the open drawing, autosaved on every change. */
+export type Session = {
+  /** Library document the working copy was opened from, if any. */
+  documentId?: string;
+  name: string;
+  json: string;
+  savedAt: number;
+  /** Whether the working copy has changes that are not in the library. */
+  dirty: boolean;
+};
+
+let database: Promise<IDBDatabase> | undefined;
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toSummary({ json, ...summary }: StoredDocument): DocumentSummary {
+  return summary;
+}
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = ({ oldVersion }) => {
+        const db = request.result;
+        if (oldVersion < 1) {
+          db.createObjectStore(DOCUMENT_STORE, { keyPath: "id" });
+          db.createObjectStore(SESSION_STORE);
+        }
+        if (oldVersion < 2) {
+          // Summarize the drawings saved so far. They have no thumbnail yet.
+          const summaries = db.createObjectStore(SUMMARY_STORE, {
+            keyPath: "id",
+          });
+          const documents = request.transaction?.objectStore(DOCUMENT_STORE);
+          documents?.openCursor().addEventListener("success", (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>)
+              .result;
+            if (!cursor) return;
+
+            summaries.put(toSummary(cursor.value));
+            cursor.continue();
+          });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  return database;
+}
+
+async function getStore(name: string, mode: IDBTransactionMode = "readonly") {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+/** Resolves once all changes of the transaction are written. */
+function toCompletion(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** A transaction over a document and its summary, so they stay in step. */
+async function getDocumentStores() {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [DOCUMENT_STORE, SUMMARY_STORE],
+    "readwrite"
+  );
+
+  return {
+    documents: transaction.objectStore(DOCUMENT_STORE),
+    summaries: transaction.objectStore(SUMMARY_STORE),
+    completion: toCompletion(transaction),
+  };
+}
+
+export async function listDocuments(): Promise<DocumentSummary[]> {
+  const store = await getStore(SUMMARY_STORE);
+  const summaries = await toPromise<DocumentSummary[]>(store.getAll());
+
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadDocument(
+  id: string
+): Promise<StoredDocument | undefined> {
+  const store = await getStore(DOCUMENT_STORE);
+  return toPromise(store.get(id));
+}
+
+export async function saveDocument(document: StoredDocument) {
+  const { documents, summaries, completion } = await getDocumentStores();
+  documents.put(document);
+  summaries.put(toSummary(document));
+  await completion;
+}
+
+export async function deleteDocument(id: string) {
+  const { documents, summaries, completion } = await getDocumentStores();
+  documents.delete(id);
+  summaries.delete(id);
+  await completion;
+}
+
+export async function loadSession(): Promise<Session | undefined> {
+  const store = await getStore(SESSION_STORE);
+  return toPromise(store.get(SESSION_KEY));
+}
+
+export async function saveSession(session: Session) {
+  const store = await getStore(SESSION_STORE, "readwrite");
+  await toPromise(store.put(session, SESSION_KEY));
+}
+
+export async function clearSession() {
+  const store = await getStore(SESSION_STORE, "readwrite");
+  await toPromise(store.delete(SESSION_KEY));
+}
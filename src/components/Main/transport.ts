@@ -0,0 +1,194 @@
+/**
+ * Whether messages currently get through. Disconnected transports try to
+ * connect again by themselves.
+ */
+export type ConnectionStatus = "CONNECTING" | "CONNECTED" | "DISCONNECTED";
+
+/**
+ * Carries collaboration messages between the clients editing a drawing.
+ * Messages are plain JSON values and are never echoed back to the sender.
+ * Messages sent while the transport is not connected are lost, so clients
+ * share their whole state again whenever it connects.
+ */
+export type SyncTransport<T> = {
+  send: (message: T) => void;
+  /** Returns a function that stops the listener. */
+  subscribe: (listener: (message: T) => void) => VoidFunction;
+  /**
+   * Calls the listener with the current status right away and then with
+   * every change. Returns a function that stops the listener.
+   */
+  subscribeStatus: (
+    listener: (status: ConnectionStatus) => void
+  ) => VoidFunction;
+  close: VoidFunction;
+};
+
+/** Milliseconds to wait before reconnecting, by attempt. */
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000];
+
+function createListeners<T>() {
+  const listeners = new Set<(message: T) => void>();
+
+  return {
+    add(listener: (message: T) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(message: T) {
+      listeners.forEach((listener) => listener(message));
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
+
+/** A transport that is connected for as long as it exists. */
+function subscribeConnected(listener: (status: ConnectionStatus) => void) {
+  listener("CONNECTED");
+  return () => {};
+}
+
+/**
+ * Connects to a relay server that forwards every message to the other sockets
+ * of the same room, and reconnects when the connection drops. Throws when the
+ * URL is not valid.
+ */
+export function createWebSocketTransport<T>(
+  url: string,
+  room: string
+): SyncTransport<T> {
+  let socketUrl: URL;
+  try {
+    socketUrl = new URL(url);
+  } catch {
+    throw new Error(`"${url}" is not a valid collaboration server URL.`);
+  }
+  socketUrl.searchParams.set("room", room);
+
+  const listeners = createListeners<T>();
+  const statusListeners = createListeners<ConnectionStatus>();
+  let status: ConnectionStatus = "CONNECTING";
+  let socket: WebSocket;
+  let attempt = 0;
+  let reconnectTimer: number | undefined;
+  let closed = false;
+
+  const setStatus = (newStatus: ConnectionStatus) => {
+    status = newStatus;
+    statusListeners.emit(newStatus);
+  };
+
+  const connect = () => {
+    socket = new WebSocket(socketUrl);
+
+    socket.addEventListener("open", () => {
+      attempt = 0;
+      setStatus("CONNECTED");
+    });
+    socket.addEventListener("message", (e) => {
+      if (typeof e.data !== "string") return;
+
+      let message: T;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        // Whatever is not JSON cannot be a message.
+        return;
+      }
+      listeners.emit(message);
+    });
+    // Errors are always followed by a close event.
+    socket.addEventListener("close", () => {
+      if (closed) return;
+
+      setStatus("DISCONNECTED");
+      const delay =
+        RECONNECT_DELAYS[Math.min(attempt, RECONNECT_DELAYS.length - 1)];
+      attempt++;
+      reconnectTimer = window.setTimeout(connect, delay);
+    });
+  };
+  connect();
+
+  return {
+    send(message) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    subscribe: listeners.add,
+    subscribeStatus(listener) {
+      listener(status);
+      return statusListeners.add(listener);
+    },
+    close() {
+      closed = true;
+      window.clearTimeout(reconnectTimer);
+      listeners.clear();
+      statusListeners.clear();
+      socket.close();
+    },
+  };
+}
+
+/** Connects the tabs of this browser that join the same room. */
+export function createBroadcastChannelTransport<T>(
+  room: string
+): SyncTransport<T> {
+  const channel = new BroadcastChannel(`react-konvajs-example:${room}`);
+  const listeners = createListeners<T>();
+
+  channel.addEventListener("message", (e: MessageEvent<T>) => {
+    listeners.emit(e.data);
+  });
+
+  return {
+    send(message) {
+      channel.postMessage(message);
+    },
+    subscribe: listeners.add,
+    subscribeStatus: subscribeConnected,
+    close() {
+      listeners.clear();
+      channel.close();
+    },
+  };
+}
+
+/**
+ * An in-process room, e.g. to connect several editors in one page or in
+ * tests. Messages are delivered asynchronously, like over a network.
+ */
+export function createLocalRoom<T>() {
+  const members = new Set<(message: T) => void>();
+
+  return {
+    connect(): SyncTransport<T> {
+      const listeners = createListeners<T>();
+      const deliver = (message: T) => listeners.emit(message);
+      members.add(deliver);
+
+      return {
+        send(message) {
+          // Copy like a real transport would, so clients share no objects.
+          const data = JSON.stringify(message);
+          members.forEach((member) => {
+            if (member === deliver) return;
+
+            queueMicrotask(() => member(JSON.parse(data)));
+          });
+        },
+        subscribe: listeners.add,
+        subscribeStatus: subscribeConnected,
+        close() {
+          members.delete(deliver);
+          listeners.clear();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { ChangeEventHandler, useState } from "react";
+
+import Button from "../Button";
+import Checkbox from "../Checkbox";
+import NumberInput from "../NumberInput";
+import { Calibration, LengthUnit } from "../Paint";
+import {
+  calibrate,
+  convertCalibration,
+  DEFAULT_CALIBRATION,
+  formatLength,
+  LENGTH_UNITS,
+} from "../Paint/func";
+
+const PHYSICAL_UNITS = LENGTH_UNITS.filter((unit) => unit !== "px");
+
+const MeasurePanel = ({
+  calibration,
+  calibrationPixels,
+  showRulers,
+  onShowRulersChange,
+  onCalibrationChange,
+  onCalibrate,
+  onCalibrationCancel,
+}: {
+  calibration: Calibration;
+  /** Length of the line drawn to calibrate, while it waits for its length. */
+  calibrationPixels?: number;
+  showRulers: boolean;
+  onShowRulersChange?: (showRulers: boolean) => void;
+  onCalibrationChange?: (calibration: Calibration) => void;
+  /** Starts drawing a line of known length. */
+  onCalibrate?: VoidFunction;
+  onCalibrationCancel?: VoidFunction;
+}) => {
+  const [realLength, setRealLength] = useState(1);
+  const [realUnit, setRealUnit] = useState<LengthUnit>(
+    calibration.unit === "px" ? "m" : calibration.unit
+  );
+
+  const handleUnitChange: ChangeEventHandler<HTMLSelectElement> = (e) => {
+    const converted = convertCalibration(
+      calibration,
+      e.target.value as LengthUnit
+    );
+    if (converted) onCalibrationChange?.(converted);
+  };
+
+  const handleRealUnitChange: ChangeEventHandler<HTMLSelectElement> = (e) => {
+    setRealUnit(e.target.value as LengthUnit);
+  };
+
+  const handleApply = () => {
+    if (!calibrationPixels) return;
+
+    onCalibrationChange?.(calibrate(calibrationPixels, realLength, realUnit));
+  };
+
+  return (
+    <div className="w-72 p-2 border border-gray-300 flex flex-col gap-y-2">
+      <span className="font-bold">Measurements</span>
+      <label className="flex items-center justify-between gap-x-2">
+        <span>Rulers</span>
+        <Checkbox
+          checked={showRulers}
+          onChange={() => onShowRulersChange?.(!showRulers)}
+        />
+      </label>
+      <label className="flex items-center justify-between gap-x-2">
+        <span>Unit</span>
+        <select
+          className="w-40 border border-gray-500"
+          value={calibration.unit}
+          onChange={handleUnitChange}
+        >
+          {LENGTH_UNITS.map((unit) => (
+            <option
+              key={unit}
+              value={unit}
+              disabled={!convertCalibration(calibration, unit)}
+            >
+              {unit}
+            </option>
+          ))}
+        </select>
+      </label>
+      <span className="text-gray-500">
+        {calibration.unit === "px"
+          ? "Not calibrated, lengths are in pixels."
+          : `100 px = ${formatLength(100, calibration)}`}
+      </span>
+      {calibrationPixels === undefined ? (
+        <div className="flex gap-x-2">
+          <Button onClick={onCalibrate}>Calibrate</Button>
+          <Button
+            disabled={calibration.unit === "px"}
+            onClick={() => onCalibrationChange?.(DEFAULT_CALIBRATION)}
+          >
+            Reset
+          </Button>
+        </div>
+      ) : (
+        <>
+          <span>
+            The line is {Math.round(calibrationPixels)} px long. How long is it
+            in reality?
+          </span>
+          <div className="flex items-center gap-x-2">
+            <NumberInput
+              min={0}
+              step={0.1}
+              value={realLength}
+              onChange={setRealLength}
+            />
+            <select
+              className="border border-gray-500"
+              value={realUnit}
+              onChange={handleRealUnitChange}
+            >
+              {PHYSICAL_UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-x-2">
+            <Button
+              disabled={realLength <= 0 || calibrationPixels <= 0}
+              onClick={handleApply}
+            >
+              Apply
+            </Button>
+            <Button onClick={onCalibrationCancel}>Cancel</Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MeasurePanel;
@@ -0,0 +1,70 @@
+import { ChangeEventHandler, useEffect, useState } from "react";
+
+/**
+ * A number input that only reports values that parse and fall within range,
+ * and highlights the field while its text is invalid.
+ */
+const NumberInput = ({
+  value,
+  min,
+  max,
+  step,
+  className = "w-20",
+  onChange,
+}: {
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  className?: string;
+  onChange?: (value: number) => void;
+}) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText((prevText) =>
+      Number(prevText) === value ? prevText : String(value)
+    );
+  }, [value]);
+
+  const parse = (text: string) => {
+    if (text.trim() === "") return undefined;
+
+    const number = Number(text);
+    if (!Number.isFinite(number)) return undefined;
+    if (min !== undefined && number < min) return undefined;
+    if (max !== undefined && number > max) return undefined;
+
+    return number;
+  };
+
+  const invalid = parse(text) === undefined;
+
+  const handleChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    setText(e.target.value);
+
+    const number = parse(e.target.value);
+    if (number !== undefined) onChange?.(number);
+  };
+
+  const handleBlur = () => {
+    if (invalid) setText(String(value));
+  };
+
+  return (
+    <input
+      type="number"
+      className={`${className} border ${
+        invalid ? "border-red-500" : "border-gray-500"
+      }`}
+      value={text}
+      min={min}
+      max={max}
+      step={step}
+      onChange={handleChange}
+      onBlur={handleBlur}
+    />
+  );
+};
+
+export default NumberInput;
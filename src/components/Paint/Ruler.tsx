@@ -0,0 +1,99 @@
+import { useEffect, useRef } from "react";
+
+import { Calibration } from ".";
+import { getRulerStep } from "./func";
+
+/** Thickness of the rulers in screen pixels. */
+export const RULER_SIZE = 20;
+/** Minimum screen distance between labeled ticks. */
+const LABEL_SPACING = 60;
+const SUBDIVISIONS = 5;
+
+/**
+ * A ruler along the top or left edge of the stage, in calibrated units from
+ * the document origin. The vertical ruler is drawn like the horizontal one,
+ * turned so its labels read bottom to top.
+ */
+const Ruler = ({
+  orientation,
+  length,
+  offset,
+  scale,
+  calibration,
+}: {
+  orientation: "HORIZONTAL" | "VERTICAL";
+  /** Length of the ruler in screen pixels. */
+  length: number;
+  /** Screen position of the document origin along the ruler. */
+  offset: number;
+  scale: number;
+  calibration: Calibration;
+}) => {
+  const canvasEl = useRef<HTMLCanvasElement>(null);
+  const horizontal = orientation === "HORIZONTAL";
+
+  useEffect(() => {
+    const canvas = canvasEl.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || length <= 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = (horizontal ? length : RULER_SIZE) * ratio;
+    canvas.height = (horizontal ? RULER_SIZE : length) * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    if (!horizontal) {
+      context.translate(0, length);
+      context.rotate(-Math.PI / 2);
+    }
+    // Screen position along the ruler to drawing position.
+    const toRuler = (position: number) =>
+      horizontal ? position : length - position;
+
+    context.fillStyle = "#f3f4f6";
+    context.fillRect(0, 0, length, RULER_SIZE);
+    context.strokeStyle = "#9ca3af";
+    context.fillStyle = "#4b5563";
+    context.font = "10px sans-serif";
+    context.textBaseline = "top";
+
+    const step = getRulerStep(scale, calibration, LABEL_SPACING);
+    const tickStep = step / SUBDIVISIONS;
+    const pixelsPerTick = (tickStep / calibration.unitsPerPixel) * scale;
+
+    context.beginPath();
+    context.moveTo(0, RULER_SIZE - 0.5);
+    context.lineTo(length, RULER_SIZE - 0.5);
+    for (
+      let tickIdx = Math.floor(-offset / pixelsPerTick);
+      offset + tickIdx * pixelsPerTick <= length;
+      tickIdx++
+    ) {
+      const position = Math.round(toRuler(offset + tickIdx * pixelsPerTick));
+      const major = tickIdx % SUBDIVISIONS === 0;
+      const tickSize = major ? RULER_SIZE : RULER_SIZE / 4;
+
+      context.moveTo(position + 0.5, RULER_SIZE);
+      context.lineTo(position + 0.5, RULER_SIZE - tickSize);
+      if (major) {
+        // Rounding hides floating point noise such as 0.30000000000000004.
+        const value = Number((tickIdx * tickStep).toPrecision(10));
+        context.fillText(String(value), position + 3, 2);
+      }
+    }
+    context.stroke();
+  }, [calibration, horizontal, length, offset, scale]);
+
+  return (
+    <canvas
+      ref={canvasEl}
+      className="absolute top-0 left-0 pointer-events-none"
+      style={
+        horizontal
+          ? { width: length, height: RULER_SIZE }
+          : { width: RULER_SIZE, height: length }
+      }
+    />
+  );
+};
+
+export default Ruler;
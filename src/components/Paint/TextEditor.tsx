@@ -0,0 +1,99 @@
+import {
+  ChangeEventHandler,
+  KeyboardEventHandler,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+
+import { PaintText, Position } from ".";
+
+/**
+ * A textarea laid over a Konva `Text` node while its text is being edited, so
+ * caret movement, selection, clipboard and IME composition come from the
+ * browser.
+ */
+const TextEditor = ({
+  shape,
+  position,
+  scale = 1,
+  rotation = 0,
+  onCommit,
+}: {
+  shape: PaintText;
+  /** Top-left corner of the text node relative to the stage wrapper. */
+  position: Position;
+  scale?: number;
+  rotation?: number;
+  onCommit?: (text: string) => void;
+}) => {
+  const [text, setText] = useState(shape.text);
+  const textAreaEl = useRef<HTMLTextAreaElement>(null);
+  const committed = useRef(false);
+
+  useEffect(() => {
+    textAreaEl.current?.focus();
+    textAreaEl.current?.select();
+  }, []);
+
+  // Grow with the content instead of scrolling.
+  useLayoutEffect(() => {
+    const textArea = textAreaEl.current;
+    if (!textArea) return;
+
+    textArea.style.height = "auto";
+    textArea.style.height = `${textArea.scrollHeight}px`;
+  }, [text]);
+
+  const commit = () => {
+    if (committed.current) return;
+
+    committed.current = true;
+    onCommit?.(text);
+  };
+
+  const handleChange: ChangeEventHandler<HTMLTextAreaElement> = (e) => {
+    setText(e.target.value);
+  };
+
+  const handleKeyDown: KeyboardEventHandler<HTMLTextAreaElement> = (e) => {
+    // Escape also cancels an IME composition, which must not end editing.
+    if (e.key === "Escape" && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  return (
+    <textarea
+      ref={textAreaEl}
+      className="absolute m-0 border border-dashed border-gray-500 resize-none outline-none overflow-hidden"
+      style={{
+        left: position.x,
+        top: position.y,
+        width: shape.width > 0 ? shape.width * scale : undefined,
+        minWidth: 100,
+        padding: shape.padding * scale,
+        fontSize: shape.fontSize * scale,
+        lineHeight: shape.lineHeight,
+        fontFamily: shape.fontFamily,
+        fontWeight: shape.bold ? "bold" : "normal",
+        fontStyle: shape.italic ? "italic" : "normal",
+        textDecoration: shape.underline ? "underline" : "none",
+        textAlign: shape.align,
+        color: shape.color,
+        backgroundColor: shape.backgroundColor || "transparent",
+        transform: `rotate(${rotation}deg)`,
+        transformOrigin: "left top",
+      }}
+      value={text}
+      rows={1}
+      onChange={handleChange}
+      onKeyDown={handleKeyDown}
+      onBlur={commit}
+    />
+  );
+};
+
+export default TextEditor;
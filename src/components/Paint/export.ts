@@ -0,0 +1,301 @@
+import Konva from "konva";
+
+import { BackgroundImage, Box, PaintText, Size } from ".";
+import { DEFAULT_BACKGROUND, getImageCrop, rotatePoint } from "./func";
+import { TextLayout } from "./svg";
+
+export type RasterFormat = "PNG" | "JPEG" | "WEBP";
+
+/**
+ * - CANVAS: the whole document.
+ * - BACKGROUND: the bounds of the placed background image.
+ * - REGION: a rectangle the user drew on the stage.
+ */
+export type ExportArea = "CANVAS" | "BACKGROUND" | "REGION";
+
+export type ExportOptions = {
+  /** Leaves out the background image so annotations end up on transparency. */
+  annotationsOnly: boolean;
+  area: ExportArea;
+  format: RasterFormat;
+  /** Between 0 and 1. Ignored for PNG, which is lossless. */
+  quality: number;
+  /** Output pixels per canvas pixel, e.g. 2 for a sharper image. */
+  pixelRatio: number;
+};
+
+export const RASTER_FORMATS: {
+  [format in RasterFormat]: { mimeType: string; extension: string };
+} = {
+  PNG: { mimeType: "image/png", extension: "png" },
+  JPEG: { mimeType: "image/jpeg", extension: "jpg" },
+  WEBP: { mimeType: "image/webp", extension: "webp" },
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  annotationsOnly: false,
+  area: "CANVAS",
+  format: "PNG",
+  quality: 0.92,
+  pixelRatio: 1,
+};
+
+/**
+ * Name of helper nodes such as the transformer and vertex handles, which are
+ * part of the editor and must not end up in an export.
+ */
+export const UI_NODE_NAME = "ui";
+
+export const BACKGROUND_LAYER_NAME = "background";
+
+/** Axis-aligned bounds of an image rotated about its center. */
+export function getRotatedImageBox(image: Size, rotation: number): Box {
+  const [halfWidth, halfHeight] = [image.width / 2, image.height / 2];
+  const corners = [
+    { x: -halfWidth, y: -halfHeight },
+    { x: halfWidth, y: -halfHeight },
+    { x: halfWidth, y: halfHeight },
+    { x: -halfWidth, y: halfHeight },
+  ].map((corner) => rotatePoint(corner, rotation));
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+
+  const [minX, minY] = [Math.min(...xs), Math.min(...ys)];
+  return {
+    x: halfWidth + minX,
+    y: halfHeight + minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+/**
+ * Where the background image is drawn: the size of its cropped part after
+ * scaling, and its center, which is the center of the document. Fitting and
+ * filling take the rotation into account.
+ */
+export function getBackgroundPlacement(
+  image: Size,
+  background: BackgroundImage,
+  documentSize: Size
+): Box {
+  const crop = getImageCrop(image, background);
+  const bounds = getRotatedImageBox(crop, background.rotation);
+  const scales = [
+    documentSize.width / bounds.width,
+    documentSize.height / bounds.height,
+  ];
+
+  let scale = 1;
+  if (background.placement === "FIT") {
+    scale = Math.min(...scales);
+  } else if (background.placement === "FILL") {
+    scale = Math.max(...scales);
+  }
+
+  return {
+    x: documentSize.width / 2,
+    y: documentSize.height / 2,
+    width: crop.width * scale,
+    height: crop.height * scale,
+  };
+}
+
+/** Axis-aligned bounds of the placed background image. */
+export function getBackgroundBox(
+  image: Size,
+  background: BackgroundImage,
+  documentSize: Size
+): Box {
+  const { x, y, ...size } = getBackgroundPlacement(
+    image,
+    background,
+    documentSize
+  );
+  const bounds = getRotatedImageBox(size, background.rotation);
+
+  return {
+    x: x - bounds.width / 2,
+    y: y - bounds.height / 2,
+    width: bounds.width,
+    height: bounds.height,
+  };
+}
+
+/**
+ * Resolves the area to export, clipped to the document. Falls back to the
+ * whole document when there is no background image or region to crop to.
+ */
+export function getExportBox(
+  documentSize: Size,
+  area: ExportArea,
+  {
+    bgImg,
+    background = DEFAULT_BACKGROUND,
+    region,
+  }: { bgImg?: HTMLImageElement; background?: BackgroundImage; region?: Box }
+): Box {
+  const documentBox = { x: 0, y: 0, ...documentSize };
+
+  let box: Box = documentBox;
+  if (area === "BACKGROUND" && bgImg) {
+    box = getBackgroundBox(bgImg, background, documentSize);
+  } else if (area === "REGION" && region) {
+    box = region;
+  }
+
+  const x = Math.max(box.x, 0);
+  const y = Math.max(box.y, 0);
+  const width = Math.min(box.x + box.width, documentBox.width) - x;
+  const height = Math.min(box.y + box.height, documentBox.height) - y;
+
+  return width > 0 && height > 0 ? { x, y, width, height } : documentBox;
+}
+/**
+ * Renders part of the stage into a canvas with the editor helpers hidden.
+ * Formats without transparency get a white background instead of black.
+ */
+function renderStage(
+  stage: Konva.Stage,
+  box: Box,
+  {
+    pixelRatio,
+    annotationsOnly,
+    opaque,
+  }: { pixelRatio: number; annotationsOnly: boolean; opaque: boolean }
+) {
+  const hiddenNodes = stage
+    .find(
+      annotationsOnly
+        ? `.${UI_NODE_NAME}, .${BACKGROUND_LAYER_NAME}`
+        : `.${UI_NODE_NAME}`
+    )
+    .filter((node) => node.visible());
+  hiddenNodes.forEach((node) => node.hide());
+
+  // The box is in document coordinates, so render without zoom and pan.
+  const viewport = { position: stage.position(), scale: stage.scale() };
+  stage.position({ x: 0, y: 0 });
+  stage.scale({ x: 1, y: 1 });
+
+  const stageCanvas = stage.toCanvas({ ...box, pixelRatio });
+
+  stage.position(viewport.position);
+  stage.scale(viewport.scale);
+  hiddenNodes.forEach((node) => node.show());
+
+  if (!opaque) return stageCanvas;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = stageCanvas.width;
+  canvas.height = stageCanvas.height;
+
+  const context = canvas.getContext("2d");
+  if (context) {
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(stageCanvas, 0, 0);
+  }
+
+  return canvas;
+}
+
+export function exportRaster(
+  stage: Konva.Stage,
+  box: Box,
+  { annotationsOnly, format, quality, pixelRatio }: ExportOptions
+) {
+  const canvas = renderStage(stage, box, {
+    pixelRatio,
+    annotationsOnly,
+    opaque: format === "JPEG",
+  });
+
+  return canvas.toDataURL(RASTER_FORMATS[format].mimeType, quality);
+}
+
+/**
+ * Reads the lines Konva wrapped a text shape into, so an SVG export breaks
+ * the lines at the same places as the canvas.
+ */
+export function getStageTextLayout(stage: Konva.Stage) {
+  return (shape: PaintText): TextLayout | undefined => {
+    const node = stage.findOne(`#${shape.key}`);
+    if (!(node instanceof Konva.Text)) return undefined;
+
+    return {
+      lines: node.textArr.map((line) => line.text),
+      width: node.width(),
+      height: node.height(),
+    };
+  };
+}
+
+/**
+ * Renders the whole document as a JPEG that fits a `size` pixel square.
+ * Returns nothing when an image from another site keeps the canvas from
+ * being read.
+ */
+export function getDocumentThumbnail(
+  stage: Konva.Stage,
+  documentSize: Size,
+  size: number
+) {
+  const box = { x: 0, y: 0, ...documentSize };
+  const pixelRatio = size / Math.max(box.width, box.height);
+
+  try {
+    return renderStage(stage, box, {
+      pixelRatio,
+      annotationsOnly: false,
+      opaque: true,
+    }).toDataURL(RASTER_FORMATS.JPEG.mimeType);
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "SecurityError") {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Renders a single shape, hidden or not, scaled to fit a `size` pixel square.
+ */
+export function getShapeThumbnail(
+  stage: Konva.Stage,
+  key: string,
+  size: number
+) {
+  const node = stage.findOne(`#${key}`);
+  if (!node) return undefined;
+
+  // Hidden shapes are shown just long enough to be rendered.
+  const visible = node.visible();
+  if (!visible) node.show();
+
+  const rect = node.getClientRect();
+  const url =
+    rect.width > 0 && rect.height > 0
+      ? node.toDataURL({
+          ...rect,
+          pixelRatio: size / Math.max(rect.width, rect.height),
+        })
+      : undefined;
+
+  if (!visible) node.hide();
+  return url;
+}
+
+export function downloadUrl(url: string, fileName: string) {
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  a.remove();
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  setTimeout(() => URL.revokeObjectURL(url));
+}
@@ -1,17 +1,218 @@
-import { PaintEllipse, PaintRect, PaintShape, PaintText, PenColor } from ".";
+import Konva from "konva";
+import { v4 as uuidv4 } from "uuid";
+import {
+  BackgroundImage,
+  Box,
+  Calibration,
+  ImageAdjustments,
+  LengthUnit,
+  PaintArrow,
+  PaintEllipse,
+  PaintGroup,
+  PaintImage,
+  PaintLine,
+  PaintMeasure,
+  PaintPolygon,
+  PaintRect,
+  PaintShape,
+  PaintStyle,
+  PaintText,
+  Position,
+  Size,
+  TextStyle,
+  Viewport,
+} from ".";
 
-export const CANVAS_WIDTH = 1024;
-export const CANVAS_HEIGHT = 768;
+/** Size of new documents, and of documents saved before sizes were stored. */
+export const DEFAULT_DOCUMENT_SIZE: Size = { width: 1024, height: 768 };
 
-export function getRGBFromPenColor(penColor: PenColor, opacity = 1.0) {
-  switch (penColor) {
-    case "ORANGE":
-      return `rgba(249,115,22,${opacity})`;
-    case "GREEN":
-      return `rgba(34,197,94,${opacity})`;
-    case "PURPLE":
-      return `rgba(168,85,247,${opacity})`;
+/** Orange, green and purple, the original pen colors. */
+export const PRESET_COLORS = ["#f97316", "#22c55e", "#a855f7"];
+
+export const DASH_PATTERNS: { [name: string]: number[] } = {
+  Solid: [],
+  Dashed: [10, 5],
+  Dotted: [2, 4],
+};
+
+export const DEFAULT_PAINT_STYLE: PaintStyle = {
+  strokeColor: PRESET_COLORS[0],
+  fillColor: PRESET_COLORS[0],
+  fillOpacity: 0.3,
+  strokeWidth: 2,
+  dash: [],
+};
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  flipX: false,
+  flipY: false,
+  brightness: 0,
+  contrast: 0,
+};
+
+export const DEFAULT_BACKGROUND: BackgroundImage = {
+  ...DEFAULT_IMAGE_ADJUSTMENTS,
+  placement: "FIT",
+  rotation: 0,
+};
+
+export const LENGTH_UNITS: LengthUnit[] = ["px", "mm", "cm", "m", "in", "ft"];
+
+/** Uncalibrated documents are measured in pixels. */
+export const DEFAULT_CALIBRATION: Calibration = {
+  unit: "px",
+  unitsPerPixel: 1,
+};
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: "Arial",
+  fontSize: 16,
+  bold: false,
+  italic: false,
+  underline: false,
+  align: "left",
+  lineHeight: 1,
+  backgroundColor: "",
+  padding: 0,
+  outlineColor: "#ffffff",
+  outlineWidth: 0,
+};
+
+/** Styles the `TEXT_S` and `TEXT_L` draw modes apply to new text. */
+export const TEXT_PRESETS: {
+  [drawMode in "TEXT_S" | "TEXT_L"]: Partial<TextStyle>;
+} = {
+  TEXT_S: { fontSize: 16 },
+  TEXT_L: { fontSize: 32 },
+};
+
+export const FONT_FAMILIES = [
+  "Arial",
+  "Helvetica",
+  "Verdana",
+  "Georgia",
+  "Times New Roman",
+  "Courier New",
+];
+
+/** Returns the Konva `fontStyle` value, e.g. `"italic bold"`. */
+export function getFontStyle({ bold, italic }: TextStyle) {
+  const fontStyle = [italic && "italic", bold && "bold"].filter(Boolean);
+  return fontStyle.length > 0 ? fontStyle.join(" ") : "normal";
+}
+
+export type RGBA = { r: number; g: number; b: number; a: number };
+
+/**
+ * Parses `#rgb`, `#rrggbb`, `#rrggbbaa`, `rgb(...)` and `rgba(...)` colors.
+ */
+export function parseColor(color: string): RGBA | undefined {
+  const value = color.trim().toLowerCase();
+
+  const hexMatch = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length === 3) {
+      hex = hex
+        .split("")
+        .map((char) => char + char)
+        .join("");
+    }
+
+    return {
+      r: parseInt(hex.substring(0, 2), 16),
+      g: parseInt(hex.substring(2, 4), 16),
+      b: parseInt(hex.substring(4, 6), 16),
+      a: hex.length === 8 ? parseInt(hex.substring(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const rgbMatch = value.match(
+    /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/
+  );
+  if (rgbMatch) {
+    const [r, g, b] = rgbMatch.slice(1, 4).map(Number);
+    const a = rgbMatch[4] === undefined ? 1 : Number(rgbMatch[4]);
+    if ([r, g, b].some((channel) => channel > 255) || a > 1) return undefined;
+
+    return { r, g, b, a };
   }
+
+  return undefined;
+}
+
+export function toRGBAString({ r, g, b, a }: RGBA) {
+  return `rgba(${r},${g},${b},${a})`;
+}
+
+/** Returns `#rrggbb`, as required by `<input type="color">`. */
+export function toHexColor(color: string) {
+  const rgba = parseColor(color);
+  if (!rgba) return "#000000";
+
+  return `#${[rgba.r, rgba.g, rgba.b]
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+export function withOpacity(color: string, opacity: number) {
+  const rgba = parseColor(color);
+  if (!rgba) return color;
+
+  return toRGBAString({ ...rgba, a: opacity });
+}
+
+export function getShapeStyle(style: PaintStyle) {
+  return {
+    strokeColor: style.strokeColor,
+    fillColor: withOpacity(style.fillColor, style.fillOpacity),
+    strokeWidth: style.strokeWidth,
+    dash: style.dash,
+  };
+}
+
+/**
+ * Applies the changed parts of a style to an existing shape. Fill color and
+ * fill opacity can change independently of each other.
+ */
+export function applyStyle(
+  shape: PaintShape,
+  style: Partial<PaintStyle>
+): PaintShape {
+  if (isPaintText(shape)) {
+    return style.strokeColor ? { ...shape, color: style.strokeColor } : shape;
+  } else if (isPaintGroup(shape)) {
+    return {
+      ...shape,
+      children: shape.children.map((child) => applyStyle(child, style)),
+    };
+  } else if (isPaintImage(shape)) {
+    return shape;
+  } else if (isPaintMeasure(shape)) {
+    return {
+      ...shape,
+      strokeColor: style.strokeColor ?? shape.strokeColor,
+      strokeWidth: style.strokeWidth ?? shape.strokeWidth,
+    };
+  }
+
+  const newShape = { ...shape };
+  if (style.strokeColor !== undefined) newShape.strokeColor = style.strokeColor;
+  if (style.strokeWidth !== undefined) newShape.strokeWidth = style.strokeWidth;
+  if (style.dash !== undefined) newShape.dash = style.dash;
+
+  if (
+    "fillColor" in newShape &&
+    (style.fillColor !== undefined || style.fillOpacity !== undefined)
+  ) {
+    const prevFill = parseColor(newShape.fillColor);
+    newShape.fillColor = withOpacity(
+      style.fillColor ?? newShape.fillColor,
+      style.fillOpacity ?? prevFill?.a ?? 1
+    );
+  }
+
+  return newShape;
 }
 
 export function isPaintRect(shape: PaintShape): shape is PaintRect {
@@ -25,3 +226,1009 @@ export function isPaintEllipse(shape: PaintShape): shape is PaintEllipse {
 export function isPaintText(shape: PaintShape): shape is PaintText {
   return shape.type === "TEXT";
 }
+
+export function isPaintLine(shape: PaintShape): shape is PaintLine {
+  return shape.type === "LINE";
+}
+
+export function isPaintArrow(shape: PaintShape): shape is PaintArrow {
+  return shape.type === "ARROW";
+}
+
+export function isPaintMeasure(shape: PaintShape): shape is PaintMeasure {
+  return shape.type === "MEASURE";
+}
+
+export function isPaintPolygon(shape: PaintShape): shape is PaintPolygon {
+  return shape.type === "POLYGON";
+}
+
+export function isPaintGroup(shape: PaintShape): shape is PaintGroup {
+  return shape.type === "GROUP";
+}
+
+export function isPaintImage(shape: PaintShape): shape is PaintImage {
+  return shape.type === "IMAGE";
+}
+
+/** Whether the shape is an image or a group with an image in it. */
+export function containsImage(shape: PaintShape): boolean {
+  return isPaintGroup(shape)
+    ? shape.children.some(containsImage)
+    : isPaintImage(shape);
+}
+
+/** The part of an image that is shown, in image pixels. */
+export function getImageCrop(image: Size, adjustments: ImageAdjustments): Box {
+  return adjustments.crop ?? { x: 0, y: 0, ...image };
+}
+
+/**
+ * An image shape showing the whole image, centered in the document and
+ * scaled down to at most half of it.
+ */
+export function createPaintImage(
+  image: Size,
+  src: string,
+  documentSize: Size
+): PaintImage {
+  const scale = Math.min(
+    documentSize.width / 2 / image.width,
+    documentSize.height / 2 / image.height,
+    1
+  );
+  const [width, height] = [image.width * scale, image.height * scale];
+
+  return {
+    ...DEFAULT_IMAGE_ADJUSTMENTS,
+    type: "IMAGE",
+    x: (documentSize.width - width) / 2,
+    y: (documentSize.height - height) / 2,
+    rotation: 0,
+    width,
+    height,
+    src,
+    key: uuidv4(),
+    locked: false,
+    visible: true,
+  };
+}
+
+/**
+ * Changes the part of the image a shape shows while keeping the scale of the
+ * image, so the shape grows or shrinks with the crop.
+ */
+export function cropPaintImage(
+  shape: PaintImage,
+  image: Size,
+  crop?: Box
+): PaintImage {
+  const prevCrop = getImageCrop(image, shape);
+  const nextCrop = crop ?? { x: 0, y: 0, ...image };
+
+  return {
+    ...shape,
+    crop,
+    width: (shape.width * nextCrop.width) / prevCrop.width,
+    height: (shape.height * nextCrop.height) / prevCrop.height,
+  };
+}
+
+/** Length of a dimension line in document pixels. */
+export function getMeasureLength(shape: PaintMeasure) {
+  const [x1, y1, x2, y2] = shape.points;
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+/** Calibration under which a line of `pixels` is `length` units long. */
+export function calibrate(
+  pixels: number,
+  length: number,
+  unit: LengthUnit
+): Calibration {
+  return { unit, unitsPerPixel: length / pixels };
+}
+
+/** Millimeters in each physical unit. */
+const UNIT_MILLIMETERS: { [unit in LengthUnit]?: number } = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8,
+};
+
+/**
+ * The same calibration in another physical unit, or undefined when either
+ * unit is pixels, which have no fixed physical size.
+ */
+export function convertCalibration(
+  calibration: Calibration,
+  unit: LengthUnit
+): Calibration | undefined {
+  if (unit === calibration.unit) return calibration;
+
+  const from = UNIT_MILLIMETERS[calibration.unit];
+  const to = UNIT_MILLIMETERS[unit];
+  if (!from || !to) return undefined;
+
+  return { unit, unitsPerPixel: (calibration.unitsPerPixel * from) / to };
+}
+
+/** A length in document pixels in the calibrated unit, e.g. "12.5 cm". */
+export function formatLength(pixels: number, calibration: Calibration) {
+  const value = Math.abs(pixels) * calibration.unitsPerPixel;
+  // Small values need decimals, large ones would only show noise.
+  const digits = value >= 100 ? 0 : value >= 10 ? 1 : 2;
+  return `${Number(value.toFixed(digits))} ${calibration.unit}`;
+}
+
+/**
+ * Distance in calibrated units between labeled ruler ticks: 1, 2 or 5 times
+ * a power of ten, so that labels are at least `minSpacing` screen pixels
+ * apart at the given zoom.
+ */
+export function getRulerStep(
+  scale: number,
+  calibration: Calibration,
+  minSpacing: number
+) {
+  const minStep = (minSpacing / scale) * calibration.unitsPerPixel;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(minStep)));
+
+  return (
+    [1, 2, 5, 10]
+      .map((factor) => factor * magnitude)
+      .find((step) => step >= minStep) ?? 10 * magnitude
+  );
+}
+
+/**
+ * Straight lines, arrows and polygons are edited through their vertices;
+ * freehand strokes have too many points for that.
+ */
+export function hasVertexHandles(
+  shape: PaintShape
+): shape is PaintLine | PaintArrow | PaintPolygon | PaintMeasure {
+  if (isPaintLine(shape)) return !shape.freehand;
+
+  return isPaintArrow(shape) || isPaintPolygon(shape) || isPaintMeasure(shape);
+}
+
+/**
+ * Moves a box drawn up or to the left, or flipped, to its top-left corner so
+ * that its width and height are positive. Images flip to keep their look.
+ */
+export function normalizeShapeBox(shape: PaintShape): PaintShape {
+  if (!isPaintRect(shape) && !isPaintImage(shape) && !isPaintText(shape)) {
+    return shape;
+  }
+
+  const height = isPaintText(shape) ? 0 : shape.height;
+  if (shape.width >= 0 && height >= 0) return shape;
+
+  const offset = rotatePoint(
+    { x: Math.min(0, shape.width), y: Math.min(0, height) },
+    shape.rotation
+  );
+  const position = { x: shape.x + offset.x, y: shape.y + offset.y };
+  const width = Math.abs(shape.width);
+
+  if (isPaintText(shape)) return { ...shape, ...position, width };
+  if (isPaintRect(shape)) {
+    return { ...shape, ...position, width, height: Math.abs(shape.height) };
+  }
+  return {
+    ...shape,
+    ...position,
+    width,
+    height: Math.abs(shape.height),
+    flipX: shape.width < 0 ? !shape.flipX : shape.flipX,
+    flipY: shape.height < 0 ? !shape.flipY : shape.flipY,
+  };
+}
+
+export function resizeShape(shape: PaintShape, size: Size): PaintShape {
+  if (isPaintRect(shape) || isPaintImage(shape)) {
+    return { ...shape, width: size.width, height: size.height };
+  } else if (isPaintEllipse(shape)) {
+    return {
+      ...shape,
+      radiusX: Math.floor(size.width / 2),
+      radiusY: Math.floor(size.height / 2),
+    };
+  } else if (isPaintText(shape)) {
+    return { ...shape, width: size.width };
+  }
+
+  return shape;
+}
+
+/**
+ * Scales a shape's position and size in its parent's coordinates. Children of
+ * a group that are rotated within it are scaled along their own axes, which
+ * only approximates a non-uniform scale of the group.
+ */
+export function scaleShape(
+  shape: PaintShape,
+  scaleX: number,
+  scaleY: number
+): PaintShape {
+  const position = { x: shape.x * scaleX, y: shape.y * scaleY };
+
+  if (isPaintGroup(shape)) {
+    return {
+      ...shape,
+      ...position,
+      children: shape.children.map((child) =>
+        scaleShape(child, scaleX, scaleY)
+      ),
+    };
+  } else if (
+    isPaintLine(shape) ||
+    isPaintArrow(shape) ||
+    isPaintPolygon(shape) ||
+    isPaintMeasure(shape)
+  ) {
+    return {
+      ...shape,
+      ...position,
+      points: scalePoints(shape.points, scaleX, scaleY),
+    };
+  } else if (isPaintEllipse(shape)) {
+    return {
+      ...shape,
+      ...position,
+      radiusX: Math.abs(shape.radiusX * scaleX),
+      radiusY: Math.abs(shape.radiusY * scaleY),
+    };
+  } else if (isPaintRect(shape) || isPaintImage(shape)) {
+    return normalizeShapeBox({
+      ...shape,
+      ...position,
+      width: shape.width * scaleX,
+      height: shape.height * scaleY,
+    });
+  }
+
+  return normalizeShapeBox({
+    ...shape,
+    ...position,
+    width: shape.width * scaleX,
+  });
+}
+
+/**
+ * Bakes the position and scale a Transformer left on a node into the shape.
+ */
+export function transformShape(
+  shape: PaintShape,
+  node: Konva.Node
+): PaintShape {
+  if (isPaintGroup(shape)) {
+    return {
+      ...shape,
+      x: node.x(),
+      y: node.y(),
+      rotation: node.rotation(),
+      children: shape.children.map((child) =>
+        scaleShape(child, node.scaleX(), node.scaleY())
+      ),
+    };
+  }
+
+  if (
+    isPaintLine(shape) ||
+    isPaintArrow(shape) ||
+    isPaintPolygon(shape) ||
+    isPaintMeasure(shape)
+  ) {
+    return {
+      ...shape,
+      x: node.x(),
+      y: node.y(),
+      rotation: node.rotation(),
+      points: scalePoints(shape.points, node.scaleX(), node.scaleY()),
+    };
+  }
+
+  // Images are drawn inside a group, which has no size of its own.
+  if (isPaintImage(shape)) {
+    return normalizeShapeBox({
+      ...shape,
+      x: node.x(),
+      y: node.y(),
+      rotation: node.rotation(),
+      width: shape.width * node.scaleX(),
+      height: shape.height * node.scaleY(),
+    });
+  }
+
+  // Flipping with the transformer scales by a negative factor.
+  return normalizeShapeBox({
+    ...resizeShape(shape, {
+      width: node.width() * node.scaleX(),
+      height: node.height() * node.scaleY(),
+    }),
+    x: node.x(),
+    y: node.y(),
+    rotation: node.rotation(),
+  });
+}
+
+export function rotatePoint({ x, y }: Position, degrees: number): Position {
+  const rad = (degrees * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(rad), Math.sin(rad)];
+
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+export function scalePoints(points: number[], scaleX: number, scaleY: number) {
+  return points.map((value, idx) => value * (idx % 2 === 0 ? scaleX : scaleY));
+}
+
+function getSegmentDistance(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+) {
+  const [dx, dy] = [bx - ax, by - ay];
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+/**
+ * Drops points of a freehand stroke that lie within `tolerance` pixels of the
+ * simplified stroke (Ramer-Douglas-Peucker), along with their pressure.
+ */
+export function simplifyLine(line: PaintLine, tolerance: number): PaintLine {
+  const keep = getSimplifiedPoints(line.points, tolerance);
+  const points = line.points.filter((_, idx) => keep[Math.floor(idx / 2)]);
+  if (!line.pressures) return { ...line, points };
+
+  return {
+    ...line,
+    points,
+    pressures: line.pressures.filter((_, idx) => keep[idx]),
+  };
+}
+
+/** Which points of a flat `[x1, y1, x2, y2, ...]` path are kept. */
+function getSimplifiedPoints(points: number[], tolerance: number) {
+  const count = points.length / 2;
+  const keep = new Array<boolean>(count).fill(count <= 2);
+  if (count <= 2) return keep;
+
+  keep[0] = keep[count - 1] = true;
+
+  const stack: [number, number][] = [[0, count - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+
+    let maxDistance = 0;
+    let maxIdx = -1;
+    for (let idx = first + 1; idx < last; idx++) {
+      const distance = getSegmentDistance(
+        points[idx * 2],
+        points[idx * 2 + 1],
+        points[first * 2],
+        points[first * 2 + 1],
+        points[last * 2],
+        points[last * 2 + 1]
+      );
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIdx = idx;
+      }
+    }
+
+    if (maxIdx !== -1 && maxDistance > tolerance) {
+      keep[maxIdx] = true;
+      stack.push([first, maxIdx], [maxIdx, last]);
+    }
+  }
+
+  return keep;
+}
+
+/**
+ * Drops the point that was following the pointer while a polygon was drawn,
+ * along with repeated vertices left behind by a double-click.
+ */
+export function closePolygonPoints(points: number[]) {
+  const closedPoints: number[] = [];
+  for (let idx = 0; idx < points.length - 2; idx += 2) {
+    const [x, y] = [points[idx], points[idx + 1]];
+    const [prevX, prevY] = closedPoints.slice(-2);
+    if (x !== prevX || y !== prevY) closedPoints.push(x, y);
+  }
+
+  return closedPoints;
+}
+
+export function getSelectionBoxRect(start: Position, end: Position): Box {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+/** Scale factor of one zoom in or out step. */
+export const ZOOM_STEP = 1.25;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+
+/**
+ * Changes the scale while keeping the document point under `focus`, given in
+ * stage coordinates, in place.
+ */
+export function zoomViewport(
+  viewport: Viewport,
+  scale: number,
+  focus: Position
+): Viewport {
+  const newScale = Math.min(Math.max(scale, MIN_ZOOM), MAX_ZOOM);
+  const ratio = newScale / viewport.scale;
+
+  return {
+    x: focus.x - (focus.x - viewport.x) * ratio,
+    y: focus.y - (focus.y - viewport.y) * ratio,
+    scale: newScale,
+  };
+}
+
+/** Scales and centers `box` to fill `size` as far as possible. */
+export function fitViewport(box: Box, size: Size): Viewport {
+  const scale = Math.min(
+    Math.max(
+      Math.min(size.width / box.width, size.height / box.height),
+      MIN_ZOOM
+    ),
+    MAX_ZOOM
+  );
+
+  return {
+    x: (size.width - box.width * scale) / 2 - box.x * scale,
+    y: (size.height - box.height * scale) / 2 - box.y * scale,
+    scale,
+  };
+}
+
+/**
+ * Adapts the viewport to a resized stage: the zoom changes as much as the
+ * scale that fits the document, and the document point at the center of the
+ * stage stays there.
+ */
+export function resizeViewport(
+  viewport: Viewport,
+  prevSize: Size,
+  size: Size,
+  documentSize: Size
+): Viewport {
+  const getFitScale = ({ width, height }: Size) =>
+    Math.min(width / documentSize.width, height / documentSize.height);
+  const scale = viewport.scale * (getFitScale(size) / getFitScale(prevSize));
+  if (!Number.isFinite(scale) || scale <= 0) return viewport;
+
+  const center = {
+    x: (prevSize.width / 2 - viewport.x) / viewport.scale,
+    y: (prevSize.height / 2 - viewport.y) / viewport.scale,
+  };
+  return {
+    x: size.width / 2 - center.x * scale,
+    y: size.height / 2 - center.y * scale,
+    scale,
+  };
+}
+
+/**
+ * Follows a two-finger gesture: the zoom changes with the distance between the
+ * fingers, and the document point under their midpoint moves with it.
+ */
+export function pinchViewport(
+  start: { viewport: Viewport; center: Position; distance: number },
+  center: Position,
+  distance: number
+): Viewport {
+  const zoomed = zoomViewport(
+    start.viewport,
+    (start.viewport.scale * distance) / start.distance,
+    start.center
+  );
+
+  return {
+    ...zoomed,
+    x: zoomed.x + center.x - start.center.x,
+    y: zoomed.y + center.y - start.center.y,
+  };
+}
+
+/**
+ * Scales a stroke width by pen pressure. Pens report 0.5 for a normal press,
+ * which keeps the width unchanged.
+ */
+export function getPressureStrokeWidth(strokeWidth: number, pressure: number) {
+  return strokeWidth * (0.25 + Math.min(Math.max(pressure, 0), 1) * 1.5);
+}
+
+/**
+ * The stroke width at each point of a line that follows the pen pressure.
+ * Nothing for lines of one width, which dashed lines always are.
+ */
+export function getLineWidths(line: PaintLine): number[] | undefined {
+  if (!line.pressures || line.dash.length > 0) return undefined;
+
+  return line.pressures.map((pressure) =>
+    getPressureStrokeWidth(line.strokeWidth, pressure)
+  );
+}
+
+/** Corners on each round end of a stroke outline. */
+const STROKE_CAP_STEPS = 8;
+
+/**
+ * Outline of a stroke whose width changes from point to point, as the flat
+ * points of a closed polygon with round ends. Each point is pushed out to
+ * both sides along the direction of the stroke there. Curves are left out:
+ * freehand strokes have points close enough together to not need them.
+ */
+export function getStrokeOutline(points: number[], widths: number[]) {
+  const count = points.length / 2;
+  const getPoint = (idx: number) => {
+    const clamped = Math.min(Math.max(idx, 0), count - 1);
+    return { x: points[clamped * 2], y: points[clamped * 2 + 1] };
+  };
+
+  let direction = 0;
+  const angles = widths.map((_, idx) => {
+    const [prev, next] = [getPoint(idx - 1), getPoint(idx + 1)];
+    // Repeated points keep the direction of the points before.
+    if (prev.x !== next.x || prev.y !== next.y) {
+      direction = Math.atan2(next.y - prev.y, next.x - prev.x);
+    }
+    return direction;
+  });
+  const getOffsetPoint = (idx: number, offsetAngle: number) => {
+    const { x, y } = getPoint(idx);
+    const radius = widths[idx] / 2;
+    return [
+      x + Math.cos(offsetAngle) * radius,
+      y + Math.sin(offsetAngle) * radius,
+    ];
+  };
+  const getCap = (idx: number, startAngle: number) =>
+    Array.from({ length: STROKE_CAP_STEPS - 1 }, (_, step) =>
+      getOffsetPoint(
+        idx,
+        startAngle + (Math.PI * (step + 1)) / STROKE_CAP_STEPS
+      )
+    );
+
+  const last = count - 1;
+  return [
+    ...angles.map((angle, idx) => getOffsetPoint(idx, angle - Math.PI / 2)),
+    ...getCap(last, angles[last] - Math.PI / 2),
+    ...angles
+      .map((angle, idx) => getOffsetPoint(idx, angle + Math.PI / 2))
+      .reverse(),
+    ...getCap(0, angles[0] + Math.PI / 2),
+  ].flat();
+}
+
+/** The pointer position in document coordinates, undoing zoom and pan. */
+export function getDocumentPointerPosition(stage: Konva.Stage) {
+  const pointer = stage.getPointerPosition();
+  if (!pointer) return undefined;
+
+  return stage.getAbsoluteTransform().copy().invert().point(pointer);
+}
+
+export function isEditableTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+export const PASTE_OFFSET = 10;
+
+/** Gives a shape and, for groups, all of its children new keys. */
+function rekeyShape(shape: PaintShape): PaintShape {
+  return isPaintGroup(shape)
+    ? { ...shape, key: uuidv4(), children: shape.children.map(rekeyShape) }
+    : { ...shape, key: uuidv4() };
+}
+
+export function cloneShape(shape: PaintShape, offset: number): PaintShape {
+  return {
+    ...rekeyShape(shape),
+    x: shape.x + offset,
+    y: shape.y + offset,
+    locked: false,
+    visible: true,
+  };
+}
+
+/**
+ * Replaces the shapes with the given keys by a group of them, stacked where
+ * the top-most of them was. Returns undefined for fewer than two shapes.
+ */
+export function groupShapes(
+  shapes: PaintShape[],
+  keys: string[]
+): { shapes: PaintShape[]; group: PaintGroup } | undefined {
+  const members = shapes.filter(
+    (shape) => keys.includes(shape.key) && !shape.locked
+  );
+  if (members.length < 2) return undefined;
+
+  const x = Math.min(...members.map((shape) => shape.x));
+  const y = Math.min(...members.map((shape) => shape.y));
+  const group: PaintGroup = {
+    type: "GROUP",
+    x,
+    y,
+    rotation: 0,
+    children: members.map((shape) => ({
+      ...shape,
+      x: shape.x - x,
+      y: shape.y - y,
+    })),
+    key: uuidv4(),
+    locked: false,
+    visible: true,
+  };
+
+  const topMember = members[members.length - 1];
+  return {
+    shapes: shapes
+      .map((shape) => (shape === topMember ? group : shape))
+      .filter((shape) => !members.includes(shape)),
+    group,
+  };
+}
+
+/**
+ * Replaces the groups with the given keys by their children, placed where the
+ * group showed them. Returns the new shapes and the keys of the released
+ * children.
+ */
+export function ungroupShapes(shapes: PaintShape[], keys: string[]) {
+  const childKeys: string[] = [];
+  const newShapes = shapes.flatMap((shape) => {
+    if (!isPaintGroup(shape) || !keys.includes(shape.key) || shape.locked) {
+      return [shape];
+    }
+
+    return shape.children.map((child) => {
+      const offset = rotatePoint(child, shape.rotation);
+      childKeys.push(child.key);
+      return {
+        ...child,
+        x: shape.x + offset.x,
+        y: shape.y + offset.y,
+        rotation: child.rotation + shape.rotation,
+      };
+    });
+  });
+
+  return { shapes: newShapes, childKeys };
+}
+
+/** Stacking changes for the selected shapes; later shapes are drawn on top. */
+export type ShapeOrderCommand = "FRONT" | "FORWARD" | "BACKWARD" | "BACK";
+
+/**
+ * Restacks the shapes with the given keys. Forward and backward move each of
+ * them past one neighbour that is not moved itself.
+ */
+export function reorderShapes(
+  shapes: PaintShape[],
+  keys: string[],
+  command: ShapeOrderCommand
+): PaintShape[] {
+  const isMoved = (shape: PaintShape) => keys.includes(shape.key);
+
+  switch (command) {
+    case "FRONT":
+      return shapes
+        .filter((shape) => !isMoved(shape))
+        .concat(shapes.filter(isMoved));
+    case "BACK":
+      return shapes
+        .filter(isMoved)
+        .concat(shapes.filter((shape) => !isMoved(shape)));
+  }
+
+  const newShapes = [...shapes];
+  const swap = (idx: number, otherIdx: number) => {
+    [newShapes[idx], newShapes[otherIdx]] = [
+      newShapes[otherIdx],
+      newShapes[idx],
+    ];
+  };
+
+  if (command === "FORWARD") {
+    for (let idx = newShapes.length - 2; idx >= 0; idx--) {
+      if (isMoved(newShapes[idx]) && !isMoved(newShapes[idx + 1])) {
+        swap(idx, idx + 1);
+      }
+    }
+  } else {
+    for (let idx = 1; idx < newShapes.length; idx++) {
+      if (isMoved(newShapes[idx]) && !isMoved(newShapes[idx - 1])) {
+        swap(idx, idx - 1);
+      }
+    }
+  }
+
+  return newShapes;
+}
+
+/** Moves a shape so that it ends up at `index` in the stacking order. */
+export function moveShape(
+  shapes: PaintShape[],
+  key: string,
+  index: number
+): PaintShape[] {
+  const shape = shapes.find((shape) => shape.key === key);
+  if (!shape) return shapes;
+
+  const newShapes = shapes.filter((other) => other !== shape);
+  newShapes.splice(index, 0, shape);
+  return newShapes;
+}
+
+export type SnapOptions = {
+  /** Snaps to a grid of `gridSize` document pixels drawn over the document. */
+  grid: boolean;
+  gridSize: number;
+  /** Snaps to other shapes, the background image and the document bounds. */
+  objects: boolean;
+};
+
+export const DEFAULT_SNAP_OPTIONS: SnapOptions = {
+  grid: false,
+  gridSize: 20,
+  objects: true,
+};
+
+/** x coordinates of vertical lines and y coordinates of horizontal lines. */
+export type SnapLines = { x: number[]; y: number[] };
+
+/** Lines along the edges and through the centers of the boxes. */
+export function getSnapLines(boxes: Box[]): SnapLines {
+  return {
+    x: boxes.flatMap((box) => [
+      box.x,
+      box.x + box.width / 2,
+      box.x + box.width,
+    ]),
+    y: boxes.flatMap((box) => [
+      box.y,
+      box.y + box.height / 2,
+      box.y + box.height,
+    ]),
+  };
+}
+
+/**
+ * Finds the smallest move, up to `threshold`, that puts one of `values` on one
+ * of `lines`. Without such a line the first value snaps to the grid, if any.
+ */
+function snapValue(
+  values: number[],
+  lines: number[],
+  threshold: number,
+  gridSize?: number
+): { offset: number; guide?: number } {
+  let snapped: { offset: number; guide?: number } | undefined;
+  values.forEach((value) => {
+    lines.forEach((line) => {
+      const offset = line - value;
+      if (
+        Math.abs(offset) <= threshold &&
+        (!snapped || Math.abs(offset) < Math.abs(snapped.offset))
+      ) {
+        snapped = { offset, guide: line };
+      }
+    });
+  });
+  if (snapped) return snapped;
+
+  if (gridSize && gridSize > 0) {
+    return { offset: Math.round(values[0] / gridSize) * gridSize - values[0] };
+  }
+  return { offset: 0 };
+}
+
+/**
+ * Offset that lines up an edge or the center of a moved box with the snap
+ * lines, and the lines it snapped to, to show as guides.
+ */
+export function snapBox(
+  box: Box,
+  lines: SnapLines,
+  threshold: number,
+  gridSize?: number
+): { offset: Position; guides: SnapLines } {
+  const x = snapValue(
+    [box.x, box.x + box.width / 2, box.x + box.width],
+    lines.x,
+    threshold,
+    gridSize
+  );
+  const y = snapValue(
+    [box.y, box.y + box.height / 2, box.y + box.height],
+    lines.y,
+    threshold,
+    gridSize
+  );
+
+  return {
+    offset: { x: x.offset, y: y.offset },
+    guides: {
+      x: x.guide === undefined ? [] : [x.guide],
+      y: y.guide === undefined ? [] : [y.guide],
+    },
+  };
+}
+
+/** Like `snapBox` for a single point, such as a resize handle. */
+export function snapPoint(
+  point: Position,
+  lines: SnapLines,
+  threshold: number,
+  gridSize?: number
+): { position: Position; guides: SnapLines } {
+  const { offset, guides } = snapBox(
+    { ...point, width: 0, height: 0 },
+    lines,
+    threshold,
+    gridSize
+  );
+
+  return {
+    position: { x: point.x + offset.x, y: point.y + offset.y },
+    guides,
+  };
+}
+
+/** Smallest box containing all the boxes. */
+export function getBoundingBox(boxes: Box[]): Box {
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Bounds of a node as drawn, in document coordinates. The layers only pan and
+ * zoom, so the box stays axis-aligned.
+ */
+export function getDocumentRect(node: Konva.Node): Box {
+  const rect = node.getClientRect();
+  const transform = node.getLayer()?.getAbsoluteTransform().copy().invert();
+  if (!transform) return rect;
+
+  const start = transform.point(rect);
+  const end = transform.point({
+    x: rect.x + rect.width,
+    y: rect.y + rect.height,
+  });
+  return { ...start, width: end.x - start.x, height: end.y - start.y };
+}
+
+/**
+ * Bounding boxes of the shapes as drawn on the stage. Shapes without a node
+ * get an empty box at their position.
+ */
+export function getShapeBoxes(stage: Konva.Stage, shapes: PaintShape[]): Box[] {
+  return shapes.map((shape) => {
+    const node = stage.findOne(`#${shape.key}`);
+    return node
+      ? getDocumentRect(node)
+      : { x: shape.x, y: shape.y, width: 0, height: 0 };
+  });
+}
+
+export type AlignCommand =
+  | "LEFT"
+  | "CENTER"
+  | "RIGHT"
+  | "TOP"
+  | "MIDDLE"
+  | "BOTTOM";
+
+/**
+ * Moves the shapes so that their boxes line up with the same edge or center
+ * of the box around all of them. `boxes` holds the box of each shape.
+ */
+export function alignShapes(
+  shapes: PaintShape[],
+  boxes: Box[],
+  command: AlignCommand
+): PaintShape[] {
+  const bounds = getBoundingBox(boxes);
+
+  return shapes.map((shape, idx) => {
+    const box = boxes[idx];
+    switch (command) {
+      case "LEFT":
+        return { ...shape, x: shape.x + bounds.x - box.x };
+      case "CENTER":
+        return {
+          ...shape,
+          x: shape.x + bounds.x + (bounds.width - box.width) / 2 - box.x,
+        };
+      case "RIGHT":
+        return {
+          ...shape,
+          x: shape.x + bounds.x + bounds.width - box.width - box.x,
+        };
+      case "TOP":
+        return { ...shape, y: shape.y + bounds.y - box.y };
+      case "MIDDLE":
+        return {
+          ...shape,
+          y: shape.y + bounds.y + (bounds.height - box.height) / 2 - box.y,
+        };
+      case "BOTTOM":
+        return {
+          ...shape,
+          y: shape.y + bounds.y + bounds.height - box.height - box.y,
+        };
+    }
+    return shape;
+  });
+}
+
+export type DistributeAxis = "HORIZONTAL" | "VERTICAL";
+
+/**
+ * Moves the shapes so that the gaps between neighbouring boxes are equal,
+ * keeping the box around all of them in place.
+ */
+export function distributeShapes(
+  shapes: PaintShape[],
+  boxes: Box[],
+  axis: DistributeAxis
+): PaintShape[] {
+  if (shapes.length < 3) return shapes;
+
+  const [pos, size] =
+    axis === "HORIZONTAL"
+      ? (["x", "width"] as const)
+      : (["y", "height"] as const);
+  const order = shapes
+    .map((_, idx) => idx)
+    .sort((idx, otherIdx) => boxes[idx][pos] - boxes[otherIdx][pos]);
+  const bounds = getBoundingBox(boxes);
+  const totalSize = boxes.reduce((total, box) => total + box[size], 0);
+  const gap = (bounds[size] - totalSize) / (shapes.length - 1);
+
+  const newShapes = [...shapes];
+  let next = bounds[pos];
+  order.forEach((idx) => {
+    const shape = shapes[idx];
+    newShapes[idx] = { ...shape, [pos]: shape[pos] + next - boxes[idx][pos] };
+    next += boxes[idx][size] + gap;
+  });
+
+  return newShapes;
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+
+const images = new Map<string, HTMLImageElement>();
+
+function isLoaded(image: HTMLImageElement) {
+  return image.complete && image.naturalWidth > 0;
+}
+
+function hasFailed(image: HTMLImageElement) {
+  return image.complete && image.naturalWidth === 0;
+}
+
+/** Drops the image from the cache, e.g. once a smaller copy replaces it. */
+export function releaseImage(src: string) {
+  images.delete(src);
+}
+
+/**
+ * Loads every source once; later calls get the same image element. Broken
+ * images are not kept, so loading them again tries again.
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  let image = images.get(src);
+  if (!image || hasFailed(image)) {
+    image = new window.Image();
+    // Without CORS, images from other sites taint the canvases they are drawn
+    // into, and exports could not read them back.
+    image.crossOrigin = "anonymous";
+    image.src = src;
+    images.set(src, image);
+  }
+
+  const pending = image;
+  return new Promise((resolve, reject) => {
+    if (isLoaded(pending)) {
+      resolve(pending);
+      return;
+    }
+
+    pending.addEventListener("load", () => resolve(pending), { once: true });
+    pending.addEventListener(
+      "error",
+      () => {
+        if (images.get(src) === pending) releaseImage(src);
+        reject(new Error("The image could not be loaded."));
+      },
+      { once: true }
+    );
+  });
+}
+
+/** The image for `src`, if it has finished loading. */
+export function getLoadedImage(src: string) {
+  const image = images.get(src);
+  return image && isLoaded(image) ? image : undefined;
+}
+
+/** The image for `src`, or undefined while it loads or when it is broken. */
+export function useImage(src: string) {
+  const [image, setImage] = useState(() => getLoadedImage(src));
+
+  useEffect(() => {
+    let cancelled = false;
+    setImage(getLoadedImage(src));
+    loadImage(src).then(
+      (loadedImage) => {
+        if (!cancelled) setImage(loadedImage);
+      },
+      () => {
+        if (!cancelled) setImage(undefined);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  return image;
+}
@@ -0,0 +1,376 @@
+import { act, render } from "@testing-library/react";
+import Konva from "konva";
+import React from "react";
+
+import Paint, {
+  LONG_PRESS_DELAY,
+  LONG_PRESS_TOLERANCE,
+  PaintLine,
+  PaintRect,
+  Position,
+} from ".";
+import {
+  DEFAULT_PAINT_STYLE,
+  DEFAULT_VIEWPORT,
+  getPressureStrokeWidth,
+  pinchViewport,
+} from "./func";
+
+type PointerInit = Position & {
+  type: "pointerdown" | "pointermove" | "pointerup";
+  pointerType: "mouse" | "touch" | "pen";
+  pointerId?: number;
+  isPrimary?: boolean;
+  pressure?: number;
+};
+
+const RECT: PaintRect = {
+  type: "RECT",
+  x: 10,
+  y: 10,
+  rotation: 0,
+  width: 100,
+  height: 100,
+  key: "rect",
+  strokeColor: "#000000",
+  fillColor: "#ffffff",
+  strokeWidth: 2,
+  dash: [],
+  locked: false,
+  visible: true,
+};
+
+/** jsdom has no PointerEvent, so the pointer fields go on a mouse event. */
+function dispatchPointer(
+  stage: Konva.Stage,
+  { type, x, y, pointerType, pointerId = 1, isPrimary, pressure }: PointerInit
+) {
+  const evt = new MouseEvent(type, {
+    bubbles: true,
+    cancelable: true,
+    clientX: x,
+    clientY: y,
+  });
+  Object.defineProperties(evt, {
+    pointerType: { value: pointerType },
+    pointerId: { value: pointerId },
+    isPrimary: { value: isPrimary ?? pointerId === 1 },
+    pressure: { value: pressure ?? (type === "pointerup" ? 0 : 0.5) },
+  });
+
+  act(() => {
+    stage.content.dispatchEvent(evt);
+  });
+}
+
+function renderPaint(props: Partial<React.ComponentProps<typeof Paint>>) {
+  const stageRef = React.createRef<Konva.Stage>();
+  const view = render(
+    <Paint ref={stageRef} shapes={[]} selectedKeys={[]} {...props} />
+  );
+  if (!stageRef.current) throw new Error("The stage did not render.");
+
+  return { ...view, stage: stageRef.current };
+}
+
+beforeAll(() => {
+  window.ResizeObserver = class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe("touch", () => {
+  // The canvas is mocked, so hit detection is too: the shape is under every
+  // point.
+  const hitShape = (key: string) =>
+    jest
+      .spyOn(Konva.Stage.prototype, "getIntersection")
+      .mockImplementation(function (this: Konva.Stage) {
+        return this.findOne<Konva.Shape>(`#${key}`) ?? null;
+      });
+
+  it("pans and zooms with two fingers", () => {
+    const onViewportChange = jest.fn();
+    const { stage } = renderPaint({ onViewportChange });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "touch",
+      pointerId: 1,
+      x: 100,
+      y: 100,
+    });
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "touch",
+      pointerId: 2,
+      x: 200,
+      y: 100,
+    });
+    dispatchPointer(stage, {
+      type: "pointermove",
+      pointerType: "touch",
+      pointerId: 2,
+      x: 300,
+      y: 100,
+    });
+
+    const start = {
+      viewport: DEFAULT_VIEWPORT,
+      center: { x: 150, y: 100 },
+      distance: 100,
+    };
+    expect(onViewportChange).toHaveBeenLastCalledWith(
+      pinchViewport(start, { x: 200, y: 100 }, 200)
+    );
+    expect(onViewportChange.mock.lastCall[0].scale).toBeCloseTo(2);
+  });
+
+  it("toggles the selection on a long press and ignores the click after", () => {
+    hitShape(RECT.key);
+    const onSelectedKeysChange = jest.fn();
+    const { stage } = renderPaint({ shapes: [RECT], onSelectedKeysChange });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "touch",
+      x: 50,
+      y: 50,
+    });
+    act(() => {
+      jest.advanceTimersByTime(LONG_PRESS_DELAY - 1);
+    });
+    expect(onSelectedKeysChange).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(onSelectedKeysChange).toHaveBeenCalledTimes(1);
+    expect(onSelectedKeysChange).toHaveBeenCalledWith([RECT.key]);
+
+    dispatchPointer(stage, {
+      type: "pointerup",
+      pointerType: "touch",
+      x: 50,
+      y: 50,
+    });
+    expect(onSelectedKeysChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("selects with a short tap", () => {
+    hitShape(RECT.key);
+    const onSelectedKeysChange = jest.fn();
+    const { stage } = renderPaint({ shapes: [RECT], onSelectedKeysChange });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "touch",
+      x: 50,
+      y: 50,
+    });
+    dispatchPointer(stage, {
+      type: "pointerup",
+      pointerType: "touch",
+      x: 50,
+      y: 50,
+    });
+
+    expect(onSelectedKeysChange).toHaveBeenCalledWith([RECT.key]);
+  });
+
+  it("cancels the long press once the finger moves too far", () => {
+    hitShape(RECT.key);
+    const onSelectedKeysChange = jest.fn();
+    const { stage } = renderPaint({ shapes: [RECT], onSelectedKeysChange });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "touch",
+      x: 50,
+      y: 50,
+    });
+    dispatchPointer(stage, {
+      type: "pointermove",
+      pointerType: "touch",
+      x: 50 + LONG_PRESS_TOLERANCE + 1,
+      y: 50,
+    });
+    act(() => {
+      jest.advanceTimersByTime(LONG_PRESS_DELAY);
+    });
+
+    expect(onSelectedKeysChange).not.toHaveBeenCalled();
+  });
+
+  it("keeps the long press while the finger stays within the tolerance", () => {
+    hitShape(RECT.key);
+    const onSelectedKeysChange = jest.fn();
+    const { stage } = renderPaint({ shapes: [RECT], onSelectedKeysChange });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "touch",
+      x: 50,
+      y: 50,
+    });
+    dispatchPointer(stage, {
+      type: "pointermove",
+      pointerType: "touch",
+      x: 50 + LONG_PRESS_TOLERANCE,
+      y: 50,
+    });
+    act(() => {
+      jest.advanceTimersByTime(LONG_PRESS_DELAY);
+    });
+
+    expect(onSelectedKeysChange).toHaveBeenCalledWith([RECT.key]);
+  });
+});
+
+describe("pen", () => {
+  const penStyle = { ...DEFAULT_PAINT_STYLE, strokeWidth: 4 };
+
+  it("records the pressure at each point of the stroke", () => {
+    const onDrawEnd = jest.fn();
+    const { stage } = renderPaint({ drawMode: "PEN", penStyle, onDrawEnd });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "pen",
+      pressure: 1,
+      x: 10,
+      y: 10,
+    });
+    dispatchPointer(stage, {
+      type: "pointermove",
+      pointerType: "pen",
+      pressure: 0.2,
+      x: 40,
+      y: 30,
+    });
+    dispatchPointer(stage, {
+      type: "pointerup",
+      pointerType: "pen",
+      x: 40,
+      y: 30,
+    });
+
+    const line: PaintLine = onDrawEnd.mock.lastCall[0];
+    expect(line.freehand).toBe(true);
+    expect(line.strokeWidth).toBe(4);
+    expect(line.pressures).toEqual([1, 0.2]);
+  });
+
+  it("thickens the stroke where the pen pressed harder", () => {
+    const line: PaintLine = {
+      type: "LINE",
+      x: 0,
+      y: 0,
+      rotation: 0,
+      points: [0, 0, 100, 0],
+      key: "line",
+      strokeColor: "#000000",
+      strokeWidth: 4,
+      dash: [],
+      opacity: 1,
+      tension: 0.5,
+      freehand: true,
+      pressures: [1, 0.2],
+      locked: false,
+      visible: true,
+    };
+    const { stage } = renderPaint({ shapes: [line] });
+
+    const outline = stage.findOne<Konva.Line>(`#${line.key}`).points();
+    const getHalfWidth = (isNear: (x: number) => boolean) =>
+      Math.max(
+        ...outline.flatMap((x, idx) =>
+          idx % 2 === 0 && isNear(x) ? [Math.abs(outline[idx + 1])] : []
+        )
+      );
+    expect(getHalfWidth((x) => x < 1)).toBeCloseTo(
+      getPressureStrokeWidth(4, 1) / 2
+    );
+    expect(getHalfWidth((x) => x > 99)).toBeCloseTo(
+      getPressureStrokeWidth(4, 0.2) / 2
+    );
+  });
+
+  it("keeps the stroke width of mouse strokes", () => {
+    const onDrawEnd = jest.fn();
+    const { stage } = renderPaint({ drawMode: "PEN", penStyle, onDrawEnd });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "mouse",
+      pressure: 1,
+      x: 10,
+      y: 10,
+    });
+    dispatchPointer(stage, {
+      type: "pointermove",
+      pointerType: "mouse",
+      pressure: 1,
+      x: 40,
+      y: 30,
+    });
+    dispatchPointer(stage, {
+      type: "pointerup",
+      pointerType: "mouse",
+      x: 40,
+      y: 30,
+    });
+
+    const line: PaintLine = onDrawEnd.mock.lastCall[0];
+    expect(line.freehand).toBe(true);
+    expect(line.strokeWidth).toBe(4);
+    expect(line.pressures).toBeUndefined();
+  });
+});
+
+describe("drawing", () => {
+  it("keeps the size of boxes drawn up and to the left positive", () => {
+    const onDrawEnd = jest.fn();
+    const { stage } = renderPaint({ drawMode: "RECT", onDrawEnd });
+
+    dispatchPointer(stage, {
+      type: "pointerdown",
+      pointerType: "mouse",
+      x: 100,
+      y: 80,
+    });
+    dispatchPointer(stage, {
+      type: "pointermove",
+      pointerType: "mouse",
+      x: 40,
+      y: 30,
+    });
+    dispatchPointer(stage, {
+      type: "pointerup",
+      pointerType: "mouse",
+      x: 40,
+      y: 30,
+    });
+
+    expect(onDrawEnd).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "RECT",
+        x: 40,
+        y: 30,
+        width: 60,
+        height: 50,
+      })
+    );
+  });
+});
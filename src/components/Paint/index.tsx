@@ -1,131 +1,638 @@
 import Konva from "konva";
 import { KonvaEventObject } from "konva/lib/Node";
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Vector2d } from "konva/lib/types";
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
+  Arrow,
+  Circle,
   Ellipse,
+  Group,
   Image,
+  Label,
   Layer,
+  Line,
   Rect,
+  Shape as KonvaShape,
   Stage,
+  Tag,
   Text,
   Transformer,
 } from "react-konva";
 import { v4 as uuidv4 } from "uuid";
 import {
-  getRGBFromPenColor,
+  closePolygonPoints,
+  cloneShape,
+  containsImage,
+  DEFAULT_BACKGROUND,
+  DEFAULT_CALIBRATION,
+  DEFAULT_DOCUMENT_SIZE,
+  DEFAULT_PAINT_STYLE,
+  DEFAULT_SNAP_OPTIONS,
+  DEFAULT_TEXT_STYLE,
+  DEFAULT_VIEWPORT,
+  getBoundingBox,
+  getDocumentPointerPosition,
+  getDocumentRect,
+  getFontStyle,
+  formatLength,
+  getImageCrop,
+  getLineWidths,
+  getMeasureLength,
+  getSelectionBoxRect,
+  getShapeStyle,
+  getSnapLines,
+  getStrokeOutline,
+  hasVertexHandles,
+  isEditableTarget,
+  isPaintArrow,
   isPaintEllipse,
+  isPaintGroup,
+  isPaintImage,
+  isPaintLine,
+  isPaintMeasure,
+  isPaintPolygon,
   isPaintRect,
   isPaintText,
+  normalizeShapeBox,
+  PASTE_OFFSET,
+  pinchViewport,
+  rotatePoint,
+  simplifyLine,
+  snapBox,
+  SnapLines,
+  SnapOptions,
+  snapPoint,
+  TEXT_PRESETS,
+  transformShape,
+  zoomViewport,
 } from "./func";
+import {
+  BACKGROUND_LAYER_NAME,
+  getBackgroundBox,
+  getBackgroundPlacement,
+  UI_NODE_NAME,
+} from "./export";
+import { useImage } from "./images";
+import { Keybinding, useKeybindings } from "./keybindings";
+import {
+  parseShapesFromClipboard,
+  serializeShapesForClipboard,
+} from "./schema";
+import Ruler, { RULER_SIZE } from "./Ruler";
+import TextEditor from "./TextEditor";
 
 export type CanvasDrawMode =
   | "SELECT"
   | "RECT"
   | "ELLIPSE"
   | "TEXT_S"
-  | "TEXT_L";
-export type PenColor = "ORANGE" | "GREEN" | "PURPLE";
+  | "TEXT_L"
+  | "PEN"
+  | "HIGHLIGHTER"
+  | "LINE"
+  | "ARROW"
+  | "POLYGON"
+  | "REGION"
+  | "MEASURE"
+  /** Draws a line of known length to calibrate measurements. */
+  | "CALIBRATE";
+
+/**
+ * Style applied to newly drawn shapes. `fillColor` and `fillOpacity` are
+ * combined into the rgba `fillColor` stored on each shape.
+ */
+export type PaintStyle = {
+  strokeColor: string;
+  fillColor: string;
+  fillOpacity: number;
+  strokeWidth: number;
+  dash: number[];
+};
 
 export type PaintRect = {
   type: "RECT";
   x: number;
   y: number;
+  rotation: number;
   width: number;
   height: number;
   key: string;
   strokeColor: string;
   fillColor: string;
-  readonly: boolean;
+  strokeWidth: number;
+  dash: number[];
+  /** Locked shapes cannot be selected, moved or deleted on the stage. */
+  locked: boolean;
+  visible: boolean;
 };
 
 export type PaintEllipse = {
   type: "ELLIPSE";
   x: number;
   y: number;
+  rotation: number;
   radiusX: number;
   radiusY: number;
   key: string;
   strokeColor: string;
   fillColor: string;
-  readonly: boolean;
+  strokeWidth: number;
+  dash: number[];
+  locked: boolean;
+  visible: boolean;
 };
 
-export type PaintText = {
+export type TextAlign = "left" | "center" | "right";
+
+export type TextStyle = {
+  fontFamily: string;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  align: TextAlign;
+  lineHeight: number;
+  /** Box drawn behind the text; an empty string draws none. */
+  backgroundColor: string;
+  padding: number;
+  /** Outline around the glyphs to keep text legible on photos. */
+  outlineColor: string;
+  outlineWidth: number;
+};
+
+export type PaintText = TextStyle & {
   type: "TEXT";
   x: number;
   y: number;
+  rotation: number;
   width: number;
   key: string;
   color: string;
-  fontSize: number;
   text: string;
-  readonly: boolean;
+  locked: boolean;
+  visible: boolean;
 };
 
-export type PaintShape = PaintRect | PaintEllipse | PaintText;
+/**
+ * A freehand stroke when `freehand` is set, otherwise a straight line that is
+ * edited through its vertices. `points` are flat `[x1, y1, x2, y2, ...]`
+ * pairs relative to `x` and `y`.
+ */
+export type PaintLine = {
+  type: "LINE";
+  x: number;
+  y: number;
+  rotation: number;
+  points: number[];
+  key: string;
+  strokeColor: string;
+  strokeWidth: number;
+  dash: number[];
+  opacity: number;
+  tension: number;
+  /** Drawn with the pen or highlighter rather than as a straight line. */
+  freehand: boolean;
+  /**
+   * Pen pressure between 0 and 1 at each point of a stroke drawn with a pen,
+   * which thins or thickens the stroke there. Dashed lines ignore it.
+   */
+  pressures?: number[];
+  locked: boolean;
+  visible: boolean;
+};
+
+export type PaintArrow = {
+  type: "ARROW";
+  x: number;
+  y: number;
+  rotation: number;
+  points: number[];
+  key: string;
+  strokeColor: string;
+  strokeWidth: number;
+  dash: number[];
+  pointerLength: number;
+  pointerWidth: number;
+  locked: boolean;
+  visible: boolean;
+};
+
+export type PaintPolygon = {
+  type: "POLYGON";
+  x: number;
+  y: number;
+  rotation: number;
+  points: number[];
+  key: string;
+  strokeColor: string;
+  fillColor: string;
+  strokeWidth: number;
+  dash: number[];
+  locked: boolean;
+  visible: boolean;
+};
+
+/** A dimension line between two points, labeled with its length. */
+export type PaintMeasure = {
+  type: "MEASURE";
+  x: number;
+  y: number;
+  rotation: number;
+  points: number[];
+  key: string;
+  strokeColor: string;
+  strokeWidth: number;
+  locked: boolean;
+  visible: boolean;
+};
+
+/**
+ * Shapes that move, rotate and scale as one. Children are positioned relative
+ * to the group and cannot be selected on their own.
+ */
+export type PaintGroup = {
+  type: "GROUP";
+  x: number;
+  y: number;
+  rotation: number;
+  children: PaintShape[];
+  key: string;
+  locked: boolean;
+  visible: boolean;
+};
 
 export type Position = { x: number; y: number };
 export type Size = { width: number; height: number };
+export type Box = Position & Size;
+
+/** Changes to how an image is shown; the image itself is left as it is. */
+export type ImageAdjustments = {
+  /** Part of the image to show, in image pixels; unset shows all of it. */
+  crop?: Box;
+  flipX: boolean;
+  flipY: boolean;
+  /** From -1 to 1; 0 leaves the image unchanged. */
+  brightness: number;
+  /** From -100 to 100; 0 leaves the image unchanged. */
+  contrast: number;
+};
+
+/**
+ * How the background image is scaled into the document: to fit inside it, to
+ * cover it or not at all. It is always centered.
+ */
+export type ImagePlacement = "FIT" | "FILL" | "ACTUAL";
+
+export type BackgroundImage = ImageAdjustments & {
+  placement: ImagePlacement;
+  /** Degrees around the center of the image. */
+  rotation: number;
+};
+
+/** A picture placed on the drawing; `src` is usually a data URL. */
+export type PaintImage = ImageAdjustments & {
+  type: "IMAGE";
+  x: number;
+  y: number;
+  rotation: number;
+  width: number;
+  height: number;
+  src: string;
+  key: string;
+  locked: boolean;
+  visible: boolean;
+};
+
+export type PaintShape =
+  | PaintRect
+  | PaintEllipse
+  | PaintText
+  | PaintLine
+  | PaintArrow
+  | PaintPolygon
+  | PaintGroup
+  | PaintImage
+  | PaintMeasure;
+export type LengthUnit = "px" | "mm" | "cm" | "m" | "in" | "ft";
+
+/** Maps document pixels to a real-world unit, e.g. for floor plans. */
+export type Calibration = {
+  unit: LengthUnit;
+  unitsPerPixel: number;
+};
+
+/** Pan offset and zoom of the stage; document coordinates are unscaled. */
+export type Viewport = Position & { scale: number };
+
+/** Someone else editing the drawing, shown with their pointer and selection. */
+export type RemotePeer = {
+  clientId: string;
+  name: string;
+  color: string;
+  /** Pointer position in the document, unset while it is off the stage. */
+  cursor?: Position;
+  selectedKeys: string[];
+};
+
+const LINE_SIMPLIFY_TOLERANCE = 1;
+const POLYGON_CLOSE_DISTANCE = 8;
+const ROTATION_SNAPS = Array.from({ length: 24 }, (_, idx) => idx * 15);
+/** Zoom change per pixel of wheel movement. */
+const WHEEL_ZOOM_SPEED = 0.002;
+/** Trackpad pinches report small deltas, so they zoom faster per pixel. */
+const PINCH_ZOOM_SPEED = 0.01;
+const WHEEL_LINE_HEIGHT = 16;
+/** Milliseconds a finger has to rest on a shape before it selects it. */
+export const LONG_PRESS_DELAY = 500;
+/** Pixels a long press may wander before it counts as a drag. */
+export const LONG_PRESS_TOLERANCE = 8;
+/** Pixels on screen within which dragged shapes snap to a line. */
+const SNAP_DISTANCE = 6;
 
 const Paint = React.forwardRef<
   Konva.Stage,
   {
     bgImg?: HTMLImageElement;
+    /** Size of the drawing, independent of the stage showing it. */
+    documentSize?: Size;
     drawMode?: CanvasDrawMode;
-    penColor?: PenColor;
+    penStyle?: PaintStyle;
     shapes: PaintShape[];
-    readonly?: boolean;
-    bgImgRotation?: number;
+    selectedKeys: string[];
+    background?: BackgroundImage;
+    arrowheadSize?: number;
+    snapRotation?: boolean;
+    snapOptions?: SnapOptions;
+    /** Area to crop exports to, drawn in the `REGION` draw mode. */
+    exportRegion?: Box;
+    viewport?: Viewport;
+    peers?: RemotePeer[];
     onDrawEnd?: (newItem?: PaintShape) => void;
-    onShapeMoveEnd?: (index: number, pos: Position) => void;
-    onShapeResizeEnd?: (index: number, size: Size) => void;
-    onTextInput?: (index: number, char: string) => void;
+    onShapesChange?: (changedShapes: PaintShape[]) => void;
+    onShapesAdd?: (newShapes: PaintShape[]) => void;
+    onShapesDelete?: (keys: string[]) => void;
+    onSelectedKeysChange?: (keys: string[]) => void;
+    onExportRegionChange?: (region?: Box) => void;
+    onViewportChange?: (viewport: Viewport) => void;
+    /** Called when the stage is resized to fill its container. */
+    onStageSizeChange?: (size: Size) => void;
+    /** Called with the pointer position in the document as it moves. */
+    onPointerPositionChange?: (position?: Position) => void;
+    /** Called with files dropped onto the stage and where in the document. */
+    onFilesDrop?: (files: File[], position: Position) => void;
+    /** Called with files pasted from the clipboard, e.g. a screenshot. */
+    onFilesPaste?: (files: File[]) => void;
+    calibration?: Calibration;
+    showRulers?: boolean;
+    /** Called with the length in pixels of a line drawn to calibrate. */
+    onCalibrationLineDraw?: (pixels: number) => void;
   }
 >(
   (
     {
       bgImg,
+      documentSize = DEFAULT_DOCUMENT_SIZE,
       drawMode = "SELECT",
-      penColor = "ORANGE",
+      penStyle = DEFAULT_PAINT_STYLE,
       shapes,
-      readonly = false,
-      bgImgRotation = 0,
+      selectedKeys,
+      background = DEFAULT_BACKGROUND,
+      arrowheadSize = 10,
+      snapRotation = false,
+      snapOptions = DEFAULT_SNAP_OPTIONS,
+      exportRegion,
+      viewport = DEFAULT_VIEWPORT,
+      peers,
       onDrawEnd,
-      onShapeMoveEnd,
-      onShapeResizeEnd,
-      onTextInput,
+      onShapesChange,
+      onShapesAdd,
+      onShapesDelete,
+      onSelectedKeysChange,
+      onExportRegionChange,
+      onViewportChange,
+      onStageSizeChange,
+      onPointerPositionChange,
+      onFilesDrop,
+      onFilesPaste,
+      calibration = DEFAULT_CALIBRATION,
+      showRulers = false,
+      onCalibrationLineDraw,
     },
     ref
   ) => {
-    const [selectedShape, setSelectedShape] = useState<{
-      index: number;
-      key: string;
-    }>();
     const [drawTarget, setDrawTarget] = useState<PaintShape>();
+    const [dragging, setDragging] = useState(false);
+    const [editingKey, setEditingKey] = useState<string>();
+    const [editorLayout, setEditorLayout] = useState<{
+      position: Position;
+      scale: number;
+      rotation: number;
+    }>();
+    const [selectionBox, setSelectionBox] = useState<{
+      start: Position;
+      end: Position;
+      additive: boolean;
+    }>();
+    const [regionBox, setRegionBox] = useState<{
+      start: Position;
+      end: Position;
+    }>();
+    const [stageSize, setStageSize] = useState<Size>(documentSize);
+    const [spacePressed, setSpacePressed] = useState(false);
+    const [panStart, setPanStart] = useState<{
+      pointer: Position;
+      viewport: Viewport;
+    }>();
+    const [pinchStart, setPinchStart] = useState<{
+      center: Position;
+      distance: number;
+      viewport: Viewport;
+    }>();
+    /** Stage positions of the fingers on the screen, by pointer id. */
+    const touchPointers = useRef(new Map<number, Position>());
+    /** The shape being drawn before the current gesture began. */
+    const gestureStartTarget = useRef<PaintShape>();
+    const longPress = useRef<{ timer: number; pointer: Position }>();
+    /** Keeps the click that ends a long press from changing the selection. */
+    const suppressClick = useRef(false);
+    const [fileDragOver, setFileDragOver] = useState(false);
+    /** Lines shown while a shape snaps to them. */
+    const [guides, setGuides] = useState<SnapLines>();
+    const [peerSelections, setPeerSelections] = useState<
+      { clientId: string; key: string; color: string; box: Box }[]
+    >([]);
+    /** What moved or resized shapes snap to, gathered when that starts. */
+    const snapLines = useRef<SnapLines>();
+    const dragSnap = useRef<{
+      /** The node under the pointer; the other nodes follow its snapping. */
+      node: Konva.Node;
+      /** Document box around the dragged nodes when the drag started. */
+      box: Box;
+      /** Absolute positions of the dragged nodes when the drag started. */
+      positions: Map<Konva.Node, Position>;
+      scale: number;
+      /** Absolute distance the nodes have moved, including snapping. */
+      delta: Position;
+    }>();
+    const lastPaste = useRef<{ text: string; count: number }>();
+    const containerRef = useRef<HTMLDivElement>(null);
+    const pointerOver = useRef(false);
+    const layerRef = useRef<Konva.Layer>(null);
+    const trRef = useRef<Konva.Transformer>(null);
+
+    const selectedShapes = useMemo(
+      () => shapes.filter((shape) => selectedKeys.includes(shape.key)),
+      [selectedKeys, shapes]
+    );
+
+    // Read through a ref, so selecting does not give every shape a new
+    // click handler and rebuild its node.
+    const selectedKeysRef = useRef(selectedKeys);
+    selectedKeysRef.current = selectedKeys;
+
+    const handleSelect = useCallback(
+      (key: string, toggle: boolean) => {
+        if (suppressClick.current) {
+          suppressClick.current = false;
+          return;
+        }
+
+        const prevKeys = selectedKeysRef.current;
+        if (!toggle) {
+          onSelectedKeysChange?.([key]);
+        } else if (prevKeys.includes(key)) {
+          onSelectedKeysChange?.(
+            prevKeys.filter((selectedKey) => selectedKey !== key)
+          );
+        } else {
+          onSelectedKeysChange?.(prevKeys.concat(key));
+        }
+      },
+      [onSelectedKeysChange]
+    );
+
+    const clearLongPress = useCallback(() => {
+      window.clearTimeout(longPress.current?.timer);
+      longPress.current = undefined;
+    }, []);
+
+    /** Drops whatever the current gesture started drawing or dragging. */
+    const cancelGesture = useCallback(
+      (stage: Konva.Stage) => {
+        clearLongPress();
+        stage
+          .find((node: Konva.Node) => node.isDragging())
+          .forEach((node) => node.stopDrag());
+        setDrawTarget(gestureStartTarget.current);
+        setSelectionBox(undefined);
+        setRegionBox(undefined);
+      },
+      [clearLongPress]
+    );
+
+    const finishPolygon = useCallback(
+      (polygon: PaintPolygon) => {
+        setDrawTarget(undefined);
+
+        const points = closePolygonPoints(polygon.points);
+        onDrawEnd?.(points.length >= 6 ? { ...polygon, points } : undefined);
+      },
+      [onDrawEnd]
+    );
+
+    const handleCanvasPointerDown = useCallback(
+      (e: Konva.KonvaEventObject<PointerEvent>) => {
+        const stage = e.target.getStage();
+        const pointer = stage?.getPointerPosition();
+        if (!stage || !pointer) return;
+
+        suppressClick.current = false;
+
+        if (e.evt.pointerType === "touch") {
+          // A primary touch means no other finger is down, so this also drops
+          // fingers whose pointerup never arrived.
+          if (e.evt.isPrimary) touchPointers.current.clear();
+          touchPointers.current.set(e.evt.pointerId, pointer);
+
+          // A second finger turns the gesture into a pan and zoom.
+          if (touchPointers.current.size === 2) {
+            cancelGesture(stage);
+            setPinchStart({ ...getTouchSpan(touchPointers.current), viewport });
+            return;
+          }
+          if (pinchStart) return;
+        }
 
-    const handleCanvasMouseDown = useCallback(
-      (e: Konva.KonvaEventObject<MouseEvent>) => {
-        const pos = e.target.getStage()?.getPointerPosition();
+        gestureStartTarget.current = drawTarget;
+
+        // Space + drag or the middle button pans instead of drawing.
+        if (spacePressed || e.evt.button === 1) {
+          e.evt.preventDefault();
+          e.target.stopDrag();
+          setPanStart({ pointer, viewport });
+          return;
+        }
+
+        const pos = getDocumentPointerPosition(stage);
         if (!pos) return;
 
+        // Fingers have no shift key, so holding still toggles the selection.
+        if (e.evt.pointerType === "touch") {
+          clearLongPress();
+          const timer = window.setTimeout(() => {
+            cancelGesture(stage);
+
+            // Shapes inside a group select the whole group.
+            const target = stage.getIntersection(pointer);
+            const shape =
+              target &&
+              shapes.find(
+                (shape) =>
+                  target.id() === shape.key ||
+                  target.findAncestor(`#${shape.key}`)
+              );
+            if (!shape || shape.locked) return;
+
+            handleSelect(shape.key, true);
+            suppressClick.current = true;
+          }, LONG_PRESS_DELAY);
+          longPress.current = { timer, pointer };
+        }
+
         const clickedOnEmpty =
-          e.target === e.target.getStage() || "image" in e.target.attrs;
+          e.target === e.target.getStage() ||
+          !!e.target.getLayer()?.hasName(BACKGROUND_LAYER_NAME);
         if (clickedOnEmpty) {
-          setSelectedShape(undefined);
+          if (!e.evt.shiftKey) onSelectedKeysChange?.([]);
+
+          if (drawMode === "SELECT") {
+            setSelectionBox({ start: pos, end: pos, additive: e.evt.shiftKey });
+          }
         }
 
         switch (drawMode) {
+          case "REGION":
+            setRegionBox({ start: pos, end: pos });
+            break;
           case "RECT":
             const newRect: PaintRect = {
               type: "RECT",
               x: pos.x,
               y: pos.y,
+              rotation: 0,
               width: 0,
               height: 0,
               key: uuidv4(),
-              strokeColor: getRGBFromPenColor(penColor),
-              fillColor: getRGBFromPenColor(penColor, 0.3),
-              readonly,
+              ...getShapeStyle(penStyle),
+              locked: false,
+              visible: true,
             };
             setDrawTarget(newRect);
             break;
@@ -134,41 +641,207 @@ const Paint = React.forwardRef<
               type: "ELLIPSE",
               x: pos.x,
               y: pos.y,
+              rotation: 0,
               radiusX: 0,
               radiusY: 0,
               key: uuidv4(),
-              strokeColor: getRGBFromPenColor(penColor),
-              fillColor: getRGBFromPenColor(penColor, 0.3),
-              readonly,
+              ...getShapeStyle(penStyle),
+              locked: false,
+              visible: true,
             };
             setDrawTarget(newEllipse);
             break;
           case "TEXT_S":
           case "TEXT_L":
-            const fontSize = drawMode === "TEXT_S" ? 16 : 32;
             const newText: PaintText = {
+              ...DEFAULT_TEXT_STYLE,
+              ...TEXT_PRESETS[drawMode],
               type: "TEXT",
               x: pos.x,
               y: pos.y,
+              rotation: 0,
               width: 0,
               text: "TEXT",
               key: uuidv4(),
-              fontSize,
-              color: getRGBFromPenColor(penColor),
-              readonly,
+              color: penStyle.strokeColor,
+              locked: false,
+              visible: true,
             };
             setDrawTarget(newText);
             break;
+          case "PEN":
+          case "HIGHLIGHTER":
+            const isPen = drawMode === "PEN";
+            const newLine: PaintLine = {
+              type: "LINE",
+              x: pos.x,
+              y: pos.y,
+              rotation: 0,
+              points: [0, 0],
+              key: uuidv4(),
+              strokeColor: penStyle.strokeColor,
+              strokeWidth: isPen ? penStyle.strokeWidth : 16,
+              dash: isPen ? penStyle.dash : [],
+              opacity: isPen ? 1 : 0.4,
+              tension: 0.5,
+              freehand: true,
+              pressures:
+                e.evt.pointerType === "pen" ? [e.evt.pressure] : undefined,
+              locked: false,
+              visible: true,
+            };
+            setDrawTarget(newLine);
+            break;
+          case "LINE":
+            const newStraightLine: PaintLine = {
+              type: "LINE",
+              x: pos.x,
+              y: pos.y,
+              rotation: 0,
+              points: [0, 0, 0, 0],
+              key: uuidv4(),
+              strokeColor: penStyle.strokeColor,
+              strokeWidth: penStyle.strokeWidth,
+              dash: penStyle.dash,
+              opacity: 1,
+              tension: 0,
+              freehand: false,
+              locked: false,
+              visible: true,
+            };
+            setDrawTarget(newStraightLine);
+            break;
+          case "ARROW":
+            const newArrow: PaintArrow = {
+              type: "ARROW",
+              x: pos.x,
+              y: pos.y,
+              rotation: 0,
+              points: [0, 0, 0, 0],
+              key: uuidv4(),
+              strokeColor: penStyle.strokeColor,
+              strokeWidth: penStyle.strokeWidth,
+              dash: penStyle.dash,
+              pointerLength: arrowheadSize,
+              pointerWidth: arrowheadSize,
+              locked: false,
+              visible: true,
+            };
+            setDrawTarget(newArrow);
+            break;
+          case "MEASURE":
+          case "CALIBRATE":
+            const newMeasure: PaintMeasure = {
+              type: "MEASURE",
+              x: pos.x,
+              y: pos.y,
+              rotation: 0,
+              points: [0, 0, 0, 0],
+              key: uuidv4(),
+              strokeColor: penStyle.strokeColor,
+              strokeWidth: penStyle.strokeWidth,
+              locked: false,
+              visible: true,
+            };
+            setDrawTarget(newMeasure);
+            break;
+          case "POLYGON":
+            if (drawTarget && isPaintPolygon(drawTarget)) {
+              const [relX, relY] = [pos.x - drawTarget.x, pos.y - drawTarget.y];
+              const vertexCount = drawTarget.points.length / 2 - 1;
+
+              // Clicking near the first vertex closes the polygon.
+              if (
+                vertexCount >= 3 &&
+                Math.hypot(relX, relY) <= POLYGON_CLOSE_DISTANCE
+              ) {
+                finishPolygon(drawTarget);
+              } else {
+                setDrawTarget({
+                  ...drawTarget,
+                  points: drawTarget.points.concat([relX, relY]),
+                });
+              }
+              break;
+            }
+
+            const newPolygon: PaintPolygon = {
+              type: "POLYGON",
+              x: pos.x,
+              y: pos.y,
+              rotation: 0,
+              // The last point follows the pointer until the next click.
+              points: [0, 0, 0, 0],
+              key: uuidv4(),
+              ...getShapeStyle(penStyle),
+              locked: false,
+              visible: true,
+            };
+            setDrawTarget(newPolygon);
+            break;
         }
       },
-      [drawMode, penColor, readonly]
+      [
+        arrowheadSize,
+        cancelGesture,
+        clearLongPress,
+        drawMode,
+        drawTarget,
+        finishPolygon,
+        handleSelect,
+        onSelectedKeysChange,
+        penStyle,
+        pinchStart,
+        shapes,
+        spacePressed,
+        viewport,
+      ]
     );
 
-    const handleCanvasMouseMove = useCallback(
-      (e: Konva.KonvaEventObject<MouseEvent>) => {
-        const pos = e.target.getStage()?.getPointerPosition();
+    const handleCanvasPointerMove = useCallback(
+      (e: Konva.KonvaEventObject<PointerEvent>) => {
+        const stage = e.target.getStage();
+        const pointer = stage?.getPointerPosition();
+        if (!stage || !pointer) return;
+
+        if (touchPointers.current.has(e.evt.pointerId)) {
+          touchPointers.current.set(e.evt.pointerId, pointer);
+        }
+        if (pinchStart) {
+          if (touchPointers.current.size >= 2) {
+            const { center, distance } = getTouchSpan(touchPointers.current);
+            onViewportChange?.(pinchViewport(pinchStart, center, distance));
+          }
+          return;
+        }
+
+        if (
+          longPress.current &&
+          Math.hypot(
+            pointer.x - longPress.current.pointer.x,
+            pointer.y - longPress.current.pointer.y
+          ) > LONG_PRESS_TOLERANCE
+        ) {
+          clearLongPress();
+        }
+
+        if (panStart) {
+          onViewportChange?.({
+            ...panStart.viewport,
+            x: panStart.viewport.x + pointer.x - panStart.pointer.x,
+            y: panStart.viewport.y + pointer.y - panStart.pointer.y,
+          });
+          return;
+        }
+
+        const pos = getDocumentPointerPosition(stage);
         if (!pos) return;
 
+        onPointerPositionChange?.(pos);
+        setSelectionBox((box) => box && { ...box, end: pos });
+        setRegionBox((box) => box && { ...box, end: pos });
+
+        const { pressure } = e.evt;
         setDrawTarget((target) => {
           if (!target) return target;
 
@@ -181,265 +854,1506 @@ const Paint = React.forwardRef<
             newTarget.radiusY = Math.abs(pos.y - target.y);
           } else if (isPaintText(newTarget)) {
             newTarget.width = pos.x - target.x;
+          } else if (isPaintLine(newTarget) && newTarget.freehand) {
+            newTarget.points = newTarget.points.concat([
+              pos.x - target.x,
+              pos.y - target.y,
+            ]);
+            newTarget.pressures = newTarget.pressures?.concat(pressure);
+          } else if (
+            isPaintLine(newTarget) ||
+            isPaintArrow(newTarget) ||
+            isPaintPolygon(newTarget) ||
+            isPaintMeasure(newTarget)
+          ) {
+            newTarget.points = newTarget.points
+              .slice(0, -2)
+              .concat([pos.x - target.x, pos.y - target.y]);
           }
 
           return newTarget;
         });
       },
+      [
+        clearLongPress,
+        onPointerPositionChange,
+        onViewportChange,
+        panStart,
+        pinchStart,
+      ]
+    );
+
+    const selectShapesInBox = useCallback(
+      (box: Box, additive: boolean) => {
+        const layer = layerRef.current;
+        if (!layer) return;
+
+        // Client rects are in stage coordinates, the box is in the document.
+        const start = layer.getAbsoluteTransform().point(box);
+        const stageBox = {
+          ...start,
+          width: box.width * viewport.scale,
+          height: box.height * viewport.scale,
+        };
+
+        const keysInBox = shapes
+          .filter((shape) => {
+            if (shape.locked || !shape.visible) return false;
+
+            const node = layer.findOne(`#${shape.key}`);
+            return (
+              node &&
+              Konva.Util.haveIntersection(stageBox, node.getClientRect())
+            );
+          })
+          .map((shape) => shape.key);
+
+        onSelectedKeysChange?.(
+          additive
+            ? selectedKeys.concat(
+                keysInBox.filter((key) => !selectedKeys.includes(key))
+              )
+            : keysInBox
+        );
+      },
+      [onSelectedKeysChange, selectedKeys, shapes, viewport.scale]
+    );
+
+    const handleCanvasPointerUp = useCallback(
+      (e: Konva.KonvaEventObject<PointerEvent>) => {
+        clearLongPress();
+
+        touchPointers.current.delete(e.evt.pointerId);
+        if (pinchStart) {
+          // Lifting one finger does not hand the gesture to the other.
+          if (touchPointers.current.size === 0) setPinchStart(undefined);
+          return;
+        }
+
+        if (panStart) {
+          setPanStart(undefined);
+          return;
+        }
+
+        if (selectionBox) {
+          const box = getSelectionBoxRect(selectionBox.start, selectionBox.end);
+          if (box.width > 0 || box.height > 0) {
+            selectShapesInBox(box, selectionBox.additive);
+          }
+          setSelectionBox(undefined);
+        }
+
+        if (regionBox) {
+          const box = getSelectionBoxRect(regionBox.start, regionBox.end);
+          // A plain click clears the region.
+          onExportRegionChange?.(
+            box.width > 0 && box.height > 0 ? box : undefined
+          );
+          setRegionBox(undefined);
+          onDrawEnd?.(undefined);
+          return;
+        }
+
+        // Polygons collect vertices over several clicks.
+        if (drawTarget && isPaintPolygon(drawTarget)) return;
+
+        setDrawTarget(undefined);
+        if (drawTarget && isPaintLine(drawTarget) && drawTarget.freehand) {
+          // A click without moving still leaves a dot behind.
+          const { pressures } = drawTarget;
+          onDrawEnd?.(
+            drawTarget.points.length > 2
+              ? simplifyLine(drawTarget, LINE_SIMPLIFY_TOLERANCE)
+              : {
+                  ...drawTarget,
+                  points: [0, 0, 0, 0],
+                  pressures: pressures && pressures.concat(pressures),
+                }
+          );
+        } else if (
+          drawTarget &&
+          hasVertexHandles(drawTarget) &&
+          drawTarget.points.every((value) => value === 0)
+        ) {
+          // Ignore lines and arrows that were clicked rather than dragged.
+          onDrawEnd?.(undefined);
+        } else if (drawMode === "CALIBRATE" && drawTarget) {
+          // The calibration line is only a reference, not part of the drawing.
+          onDrawEnd?.(undefined);
+          if (isPaintMeasure(drawTarget)) {
+            onCalibrationLineDraw?.(getMeasureLength(drawTarget));
+          }
+        } else {
+          onDrawEnd?.(drawTarget && normalizeShapeBox(drawTarget));
+          // New text goes straight into editing.
+          if (drawTarget && isPaintText(drawTarget)) {
+            setEditingKey(drawTarget.key);
+          }
+        }
+      },
+      [
+        clearLongPress,
+        drawMode,
+        drawTarget,
+        onCalibrationLineDraw,
+        onDrawEnd,
+        onExportRegionChange,
+        panStart,
+        pinchStart,
+        regionBox,
+        selectShapesInBox,
+        selectionBox,
+      ]
+    );
+
+    const handlePointerEnter = useCallback(() => {
+      pointerOver.current = true;
+    }, []);
+
+    const handlePointerLeave = useCallback(() => {
+      pointerOver.current = false;
+      onPointerPositionChange?.(undefined);
+    }, [onPointerPositionChange]);
+
+    const handleDragOver = useCallback(
+      (e: React.DragEvent<HTMLDivElement>) => {
+        // Only files are accepted, not dragged text or links.
+        if (!onFilesDrop || !e.dataTransfer.types.includes("Files")) return;
+
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+        setFileDragOver(true);
+      },
+      [onFilesDrop]
+    );
+
+    const handleDragLeave = useCallback(
+      (e: React.DragEvent<HTMLDivElement>) => {
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+
+        setFileDragOver(false);
+      },
       []
     );
 
-    const handleCanvasMouseUp = useCallback(() => {
-      setDrawTarget(undefined);
-      onDrawEnd?.(drawTarget);
-    }, [drawTarget, onDrawEnd]);
+    const handleDrop = useCallback(
+      (e: React.DragEvent<HTMLDivElement>) => {
+        setFileDragOver(false);
+        const files = Array.from(e.dataTransfer.files);
+        if (!onFilesDrop || files.length <= 0) return;
+
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        onFilesDrop(files, {
+          x: (e.clientX - rect.left - viewport.x) / viewport.scale,
+          y: (e.clientY - rect.top - viewport.y) / viewport.scale,
+        });
+      },
+      [onFilesDrop, viewport]
+    );
+
+    const handleCanvasWheel = useCallback(
+      (e: Konva.KonvaEventObject<WheelEvent>) => {
+        e.evt.preventDefault();
+
+        const pointer = e.target.getStage()?.getPointerPosition();
+        if (!pointer) return;
+
+        const { deltaY, deltaMode, ctrlKey } = e.evt;
+        const delta =
+          deltaMode === WheelEvent.DOM_DELTA_LINE
+            ? deltaY * WHEEL_LINE_HEIGHT
+            : deltaY;
+        // Browsers report trackpad pinches as wheel events with ctrlKey set.
+        const speed = ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+
+        onViewportChange?.(
+          zoomViewport(
+            viewport,
+            viewport.scale * Math.exp(-delta * speed),
+            pointer
+          )
+        );
+      },
+      [onViewportChange, viewport]
+    );
+
+    useEffect(() => clearLongPress, [clearLongPress]);
+
+    useEffect(() => {
+      // Space is only taken over on the stage, so it still presses buttons
+      // and toggles checkboxes elsewhere on the page.
+      let captured = false;
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.code !== "Space" || isEditableTarget(e.target)) return;
+
+        const container = containerRef.current;
+        const onStage =
+          pointerOver.current ||
+          (e.target instanceof Node && !!container?.contains(e.target));
+        if (!onStage) return;
+
+        // Also keeps the page from scrolling while panning.
+        e.preventDefault();
+        captured = true;
+        setSpacePressed(true);
+      };
+
+      const handleKeyUp = (e: KeyboardEvent) => {
+        if (e.code !== "Space" || !captured) return;
+
+        e.preventDefault();
+        captured = false;
+        setSpacePressed(false);
+      };
+
+      const handleBlur = () => {
+        captured = false;
+        setSpacePressed(false);
+      };
+
+      window.addEventListener("keydown", handleKeyDown);
+      window.addEventListener("keyup", handleKeyUp);
+      window.addEventListener("blur", handleBlur);
+
+      return () => {
+        window.removeEventListener("keydown", handleKeyDown);
+        window.removeEventListener("keyup", handleKeyUp);
+        window.removeEventListener("blur", handleBlur);
+      };
+    }, []);
+
+    const handleCanvasDblClick = useCallback(() => {
+      if (drawTarget && isPaintPolygon(drawTarget)) finishPolygon(drawTarget);
+    }, [drawTarget, finishPolygon]);
+
+    const handleEdit = useCallback(
+      (key: string) => {
+        onSelectedKeysChange?.([]);
+        setEditingKey(key);
+      },
+      [onSelectedKeysChange]
+    );
+
+    const editingShape = useMemo(() => {
+      const shape = shapes.find((shape) => shape.key === editingKey);
+      return shape && isPaintText(shape) ? shape : undefined;
+    }, [editingKey, shapes]);
+
+    // The stage always fills its container.
+    useLayoutEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
 
-    const handleSelect = useCallback((index: number, key: string) => {
-      setSelectedShape({ key, index });
+      const observer = new ResizeObserver(([entry]) => {
+        const { width, height } = entry.contentRect;
+        setStageSize((prevSize) =>
+          prevSize.width === Math.floor(width) &&
+          prevSize.height === Math.floor(height)
+            ? prevSize
+            : { width: Math.floor(width), height: Math.floor(height) }
+        );
+      });
+      observer.observe(container);
+
+      return () => {
+        observer.disconnect();
+      };
     }, []);
 
     useEffect(() => {
-      if (!selectedShape) return;
+      onStageSizeChange?.(stageSize);
+    }, [onStageSizeChange, stageSize]);
+
+    // Boxes come from the drawn nodes, so they are measured after rendering.
+    useLayoutEffect(() => {
+      const layer = layerRef.current;
+      if (!layer) return;
+
+      setPeerSelections(
+        (peers ?? []).flatMap((peer) =>
+          peer.selectedKeys.flatMap((key) => {
+            const node = layer.findOne(`#${key}`);
+            return node
+              ? [
+                  {
+                    clientId: peer.clientId,
+                    key,
+                    color: peer.color,
+                    box: getDocumentRect(node),
+                  },
+                ]
+              : [];
+          })
+        )
+      );
+    }, [peers, shapes]);
+
+    useLayoutEffect(() => {
+      const node = editingShape
+        ? layerRef.current?.findOne(`#${editingShape.key}`)
+        : undefined;
+      const container = node?.getStage()?.container();
+      if (!node || !container) {
+        setEditorLayout(undefined);
+        return;
+      }
+
+      const absPos = node.getAbsolutePosition();
+      setEditorLayout({
+        position: {
+          x: container.offsetLeft + container.clientLeft + absPos.x,
+          y: container.offsetTop + container.clientTop + absPos.y,
+        },
+        scale: node.getAbsoluteScale().x,
+        rotation: node.getAbsoluteRotation(),
+      });
+    }, [editingShape, viewport]);
+
+    const handleTextEditCommit = useCallback(
+      (text: string) => {
+        setEditingKey(undefined);
+        if (!editingShape || text === editingShape.text) return;
+
+        if (text.trim() === "") {
+          onShapesDelete?.([editingShape.key]);
+        } else {
+          onShapesChange?.([{ ...editingShape, text }]);
+        }
+      },
+      [editingShape, onShapesChange, onShapesDelete]
+    );
+
+    const getSnapLinesFor = useCallback(
+      (movedNodes: Konva.Node[]): SnapLines => {
+        const layer = layerRef.current;
+        if (!layer || !snapOptions.objects) return { x: [], y: [] };
+
+        const boxes: Box[] = [{ x: 0, y: 0, ...documentSize }];
+        if (bgImg)
+          boxes.push(getBackgroundBox(bgImg, background, documentSize));
+        shapes.forEach((shape) => {
+          const node = layer.findOne(`#${shape.key}`);
+          if (!node || !shape.visible || movedNodes.includes(node)) return;
+
+          boxes.push(getDocumentRect(node));
+        });
+
+        return getSnapLines(boxes);
+      },
+      [background, bgImg, documentSize, shapes, snapOptions.objects]
+    );
+
+    const gridSize =
+      snapOptions.grid && snapOptions.gridSize > 0
+        ? snapOptions.gridSize
+        : undefined;
+
+    // Set as the dragBoundFunc of dragged nodes, so `this` is the node.
+    const snapDragPosition = useCallback(
+      function (this: Konva.Node, pos: Vector2d) {
+        const snap = dragSnap.current;
+        const start = snap?.positions.get(this);
+        if (!snap || !start) return pos;
+
+        // Konva moves the node under the pointer first, so the others can
+        // reuse where it snapped to.
+        if (this === snap.node) {
+          const moved = {
+            x: (pos.x - start.x) / snap.scale,
+            y: (pos.y - start.y) / snap.scale,
+          };
+          const { offset, guides } = snapBox(
+            { ...snap.box, x: snap.box.x + moved.x, y: snap.box.y + moved.y },
+            snapLines.current ?? { x: [], y: [] },
+            SNAP_DISTANCE / snap.scale,
+            gridSize
+          );
+          snap.delta = {
+            x: (moved.x + offset.x) * snap.scale,
+            y: (moved.y + offset.y) * snap.scale,
+          };
+          setGuides(guides);
+        }
+
+        return { x: start.x + snap.delta.x, y: start.y + snap.delta.y };
+      },
+      [gridSize]
+    );
+
+    const handleTransformerDragStart = useCallback(() => {
+      setDragging(true);
+
+      const nodes = trRef.current?.nodes() ?? [];
+      const node = nodes.find((node) => node.isDragging());
+      if (!node || (!snapOptions.objects && !gridSize)) return;
+
+      snapLines.current = getSnapLinesFor(nodes);
+      dragSnap.current = {
+        node,
+        box: getBoundingBox(nodes.map(getDocumentRect)),
+        positions: new Map(
+          nodes.map((node) => [node, node.getAbsolutePosition()])
+        ),
+        scale: viewport.scale,
+        delta: { x: 0, y: 0 },
+      };
+      nodes.forEach((node) => node.dragBoundFunc(snapDragPosition));
+    }, [
+      getSnapLinesFor,
+      gridSize,
+      snapDragPosition,
+      snapOptions.objects,
+      viewport.scale,
+    ]);
+
+    const handleTransformerTransformStart = useCallback(() => {
+      const nodes = trRef.current?.nodes() ?? [];
+      snapLines.current =
+        snapOptions.objects || gridSize ? getSnapLinesFor(nodes) : undefined;
+    }, [getSnapLinesFor, gridSize, snapOptions.objects]);
+
+    const snapAnchorPosition = useCallback(
+      (oldPos: Vector2d, newPos: Vector2d) => {
+        const anchor = trRef.current?.getActiveAnchor();
+        if (!snapLines.current || !anchor || anchor === "rotater") {
+          return newPos;
+        }
+
+        const { position, guides } = snapPoint(
+          {
+            x: (newPos.x - viewport.x) / viewport.scale,
+            y: (newPos.y - viewport.y) / viewport.scale,
+          },
+          snapLines.current,
+          SNAP_DISTANCE / viewport.scale,
+          gridSize
+        );
+        // Handles in the middle of a side only resize along one axis.
+        const snapX = !anchor.endsWith("center");
+        const snapY = !anchor.startsWith("middle");
+        setGuides({ x: snapX ? guides.x : [], y: snapY ? guides.y : [] });
+
+        return {
+          x: snapX ? position.x * viewport.scale + viewport.x : newPos.x,
+          y: snapY ? position.y * viewport.scale + viewport.y : newPos.y,
+        };
+      },
+      [gridSize, viewport]
+    );
+
+    const handleTransformerChangeEnd = useCallback(() => {
+      setDragging(false);
+      setGuides(undefined);
+      snapLines.current = undefined;
+      dragSnap.current = undefined;
+
+      const tr = trRef.current;
+      if (!tr) return;
+
+      const changedShapes: PaintShape[] = [];
+      tr.nodes().forEach((node) => {
+        const shape = shapes.find((shape) => shape.key === node.id());
+        if (!shape) return;
+
+        changedShapes.push(transformShape(shape, node));
+        node.scaleX(1);
+        node.scaleY(1);
+      });
+
+      onShapesChange?.(changedShapes);
+    }, [onShapesChange, shapes]);
+
+    useEffect(() => {
+      const tr = trRef.current;
+      const layer = layerRef.current;
+      if (!tr || !layer) return;
+
+      const nodes: Konva.Node[] = [];
+      selectedShapes.forEach((shape) => {
+        const node = layer.findOne(`#${shape.key}`);
+        if (node) nodes.push(node);
+      });
+
+      tr.nodes(nodes);
+      tr.getLayer()?.batchDraw();
+    }, [selectedShapes]);
+
+    const addShapes = useCallback(
+      (newShapes: PaintShape[]) => {
+        if (newShapes.length <= 0) return;
+
+        onShapesAdd?.(newShapes);
+        onSelectedKeysChange?.(newShapes.map((shape) => shape.key));
+      },
+      [onSelectedKeysChange, onShapesAdd]
+    );
+
+    const keybindings = useMemo<Keybinding[]>(() => {
+      const hasSelection = selectedShapes.length > 0;
+      const textTarget =
+        selectedShapes.length === 1 && isPaintText(selectedShapes[0])
+          ? selectedShapes[0]
+          : undefined;
+
+      return [
+        {
+          id: "finish-polygon",
+          title: "Finish polygon",
+          category: "Draw",
+          keys: ["Enter"],
+          enabled: !!drawTarget && isPaintPolygon(drawTarget),
+          run: () => {
+            if (drawTarget && isPaintPolygon(drawTarget)) {
+              finishPolygon(drawTarget);
+            }
+          },
+        },
+        {
+          id: "cancel-drawing",
+          title: "Cancel drawing",
+          category: "Draw",
+          keys: ["Escape"],
+          enabled: !!drawTarget,
+          run: () => {
+            setDrawTarget(undefined);
+            onDrawEnd?.(undefined);
+          },
+        },
+        {
+          id: "edit-text",
+          title: "Edit text",
+          category: "Edit",
+          keys: ["Enter"],
+          enabled: !!textTarget,
+          run: () => {
+            if (textTarget) handleEdit(textTarget.key);
+          },
+        },
+        {
+          id: "duplicate",
+          title: "Duplicate",
+          category: "Edit",
+          keys: ["Mod+D"],
+          enabled: hasSelection,
+          run: () => {
+            addShapes(
+              selectedShapes.map((shape) => cloneShape(shape, PASTE_OFFSET))
+            );
+          },
+        },
+        {
+          id: "delete",
+          title: "Delete",
+          category: "Edit",
+          keys: ["Delete", "Backspace"],
+          enabled: hasSelection,
+          run: () => {
+            onSelectedKeysChange?.([]);
+            onShapesDelete?.(selectedShapes.map((shape) => shape.key));
+          },
+        },
+        {
+          id: "deselect",
+          title: "Deselect",
+          category: "Edit",
+          keys: ["Escape"],
+          enabled: hasSelection,
+          run: () => {
+            onSelectedKeysChange?.([]);
+          },
+        },
+      ];
+    }, [
+      addShapes,
+      drawTarget,
+      finishPolygon,
+      handleEdit,
+      onDrawEnd,
+      onSelectedKeysChange,
+      onShapesDelete,
+      selectedShapes,
+    ]);
+
+    useKeybindings(keybindings);
+
+    useEffect(() => {
+      if (selectedShapes.length <= 0) return;
+
+      const handleCopy = (e: ClipboardEvent) => {
+        if (!e.clipboardData || window.getSelection()?.toString()) return;
+
+        e.preventDefault();
+        e.clipboardData.setData(
+          "text/plain",
+          serializeShapesForClipboard(selectedShapes)
+        );
+      };
+
+      document.addEventListener("copy", handleCopy);
+
+      return () => {
+        document.removeEventListener("copy", handleCopy);
+      };
+    }, [selectedShapes]);
+
+    useEffect(() => {
+      const handlePaste = (e: ClipboardEvent) => {
+        if (isEditableTarget(e.target)) return;
 
-      const handleKey = (e: KeyboardEvent) => {
-        if (e.key === "Enter") {
-          setSelectedShape(undefined);
+        const text = e.clipboardData?.getData("text/plain") ?? "";
+        const clipboardShapes = parseShapesFromClipboard(text);
+        if (!clipboardShapes) {
+          const files = Array.from(e.clipboardData?.files ?? []);
+          if (onFilesPaste && files.length > 0) {
+            e.preventDefault();
+            onFilesPaste(files);
+          }
           return;
         }
 
-        onTextInput?.(selectedShape.index, e.key);
+        e.preventDefault();
+
+        // Pasting the same content repeatedly cascades the copies.
+        const count =
+          lastPaste.current?.text === text ? lastPaste.current.count + 1 : 1;
+        lastPaste.current = { text, count };
+
+        addShapes(
+          clipboardShapes.map((shape) =>
+            cloneShape(shape, PASTE_OFFSET * count)
+          )
+        );
       };
 
-      window.addEventListener("keydown", handleKey);
+      document.addEventListener("paste", handlePaste);
 
       return () => {
-        window.removeEventListener("keydown", handleKey);
+        document.removeEventListener("paste", handlePaste);
       };
-    }, [onTextInput, selectedShape]);
+    }, [addShapes, onFilesPaste]);
+
+    const allTextSelected =
+      selectedShapes.length > 0 && selectedShapes.every(isPaintText);
+    const vertexTarget =
+      selectedShapes.length === 1 && hasVertexHandles(selectedShapes[0])
+        ? selectedShapes[0]
+        : undefined;
+
+    const bgPlacement =
+      bgImg && getBackgroundPlacement(bgImg, background, documentSize);
+
+    // The part of the document shown on the stage.
+    const visibleBox: Box = {
+      x: -viewport.x / viewport.scale,
+      y: -viewport.y / viewport.scale,
+      width: stageSize.width / viewport.scale,
+      height: stageSize.height / viewport.scale,
+    };
+
+    const drawReadout = drawTarget && getDrawReadout(drawTarget, calibration);
+
+    let enabledAnchors: string[] | undefined;
+    if (vertexTarget) {
+      enabledAnchors = [];
+    } else if (allTextSelected) {
+      enabledAnchors = ["middle-left", "middle-right"];
+    }
 
     return (
-      <Stage
-        ref={ref}
-        width={1024}
-        height={768}
-        className="border-solid border-2 border-gray-300"
-        onMouseDown={handleCanvasMouseDown}
-        onMouseMove={handleCanvasMouseMove}
-        onMouseUp={handleCanvasMouseUp}
+      <div
+        ref={containerRef}
+        className={`relative w-full h-full overflow-hidden touch-none border-solid border-2 bg-gray-100 ${
+          fileDragOver ? "border-blue-500" : "border-gray-300"
+        }`}
+        onPointerEnter={handlePointerEnter}
+        onPointerLeave={handlePointerLeave}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
       >
-        {bgImg && (
-          <Layer>
-            <Image
-              image={bgImg}
-              offsetX={bgImg.width / 2}
-              offsetY={bgImg.height / 2}
-              x={bgImg.width / 2}
-              y={bgImg.height / 2}
-              rotation={bgImgRotation}
+        <Stage
+          ref={ref}
+          width={stageSize.width}
+          height={stageSize.height}
+          x={viewport.x}
+          y={viewport.y}
+          scaleX={viewport.scale}
+          scaleY={viewport.scale}
+          style={{
+            cursor: panStart ? "grabbing" : spacePressed ? "grab" : undefined,
+          }}
+          onPointerDown={handleCanvasPointerDown}
+          onPointerMove={handleCanvasPointerMove}
+          onPointerUp={handleCanvasPointerUp}
+          onPointerDblClick={handleCanvasDblClick}
+          onWheel={handleCanvasWheel}
+        >
+          <Layer listening={false}>
+            <Rect
+              {...documentSize}
+              name={UI_NODE_NAME}
+              fill="white"
+              shadowColor="black"
+              shadowBlur={8}
+              shadowOpacity={0.2}
             />
+            {gridSize && (
+              <KonvaShape
+                {...documentSize}
+                name={UI_NODE_NAME}
+                gridSize={gridSize}
+                stroke="rgba(0,0,0,0.1)"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                sceneFunc={drawGrid}
+              />
+            )}
           </Layer>
+          {bgImg && bgPlacement && (
+            <Layer name={BACKGROUND_LAYER_NAME}>
+              <Group
+                x={bgPlacement.x}
+                y={bgPlacement.y}
+                offsetX={bgPlacement.width / 2}
+                offsetY={bgPlacement.height / 2}
+                rotation={background.rotation}
+              >
+                <AdjustedImage
+                  image={bgImg}
+                  width={bgPlacement.width}
+                  height={bgPlacement.height}
+                  adjustments={background}
+                />
+              </Group>
+            </Layer>
+          )}
+          <Layer ref={layerRef}>
+            <Shape
+              shape={drawTarget}
+              border={drawTarget && isPaintText(drawTarget)}
+              calibration={calibration}
+            />
+            <ShapeList
+              shapes={shapes}
+              selectedKeys={selectedKeys}
+              editingKey={editingKey}
+              calibration={calibration}
+              onSelect={handleSelect}
+              onEdit={handleEdit}
+            />
+            <Transformer
+              ref={trRef}
+              name={UI_NODE_NAME}
+              enabledAnchors={enabledAnchors}
+              rotationSnaps={snapRotation ? ROTATION_SNAPS : []}
+              // Images flip through their properties, not negative sizes.
+              flipEnabled={!selectedShapes.some(containsImage)}
+              rotationSnapTolerance={5}
+              anchorDragBoundFunc={snapAnchorPosition}
+              onDragStart={handleTransformerDragStart}
+              onDragEnd={handleTransformerChangeEnd}
+              onTransformStart={handleTransformerTransformStart}
+              onTransformEnd={handleTransformerChangeEnd}
+            />
+            {vertexTarget && !dragging && (
+              <VertexHandles
+                shape={vertexTarget}
+                scale={viewport.scale}
+                onChange={onShapesChange}
+              />
+            )}
+            {peerSelections.map(({ clientId, key, color, box }) => (
+              <Rect
+                key={`${clientId}-${key}`}
+                {...box}
+                stroke={color}
+                strokeWidth={2}
+                strokeScaleEnabled={false}
+                dash={[6, 3]}
+                listening={false}
+                name={UI_NODE_NAME}
+              />
+            ))}
+            {peers?.map(
+              (peer) =>
+                peer.cursor && (
+                  <Group
+                    key={peer.clientId}
+                    {...peer.cursor}
+                    scaleX={1 / viewport.scale}
+                    scaleY={1 / viewport.scale}
+                    listening={false}
+                    name={UI_NODE_NAME}
+                  >
+                    <Circle radius={4} fill={peer.color} />
+                    <Label x={8} y={4}>
+                      <Tag fill={peer.color} />
+                      <Text
+                        text={peer.name}
+                        fontSize={12}
+                        fill="white"
+                        padding={2}
+                      />
+                    </Label>
+                  </Group>
+                )
+            )}
+            {guides?.x.map((x) => (
+              <Line
+                key={`x-${x}`}
+                points={[x, visibleBox.y, x, visibleBox.y + visibleBox.height]}
+                stroke="rgb(236,72,153)"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                listening={false}
+                name={UI_NODE_NAME}
+              />
+            ))}
+            {guides?.y.map((y) => (
+              <Line
+                key={`y-${y}`}
+                points={[visibleBox.x, y, visibleBox.x + visibleBox.width, y]}
+                stroke="rgb(236,72,153)"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                listening={false}
+                name={UI_NODE_NAME}
+              />
+            ))}
+            {selectionBox && (
+              <Rect
+                {...getSelectionBoxRect(selectionBox.start, selectionBox.end)}
+                fill="rgba(59,130,246,0.1)"
+                stroke="rgb(59,130,246)"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                dash={[4, 4]}
+                listening={false}
+                name={UI_NODE_NAME}
+              />
+            )}
+            {(regionBox || exportRegion) && (
+              <Rect
+                {...(regionBox
+                  ? getSelectionBoxRect(regionBox.start, regionBox.end)
+                  : exportRegion)}
+                stroke="rgb(249,115,22)"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                dash={[8, 4]}
+                listening={false}
+                name={UI_NODE_NAME}
+              />
+            )}
+            {drawReadout && (
+              <Label
+                {...drawReadout.position}
+                scaleX={1 / viewport.scale}
+                scaleY={1 / viewport.scale}
+                listening={false}
+                name={UI_NODE_NAME}
+              >
+                <Tag fill="rgba(0,0,0,0.7)" cornerRadius={2} />
+                <Text
+                  text={drawReadout.text}
+                  fontSize={12}
+                  padding={4}
+                  fill="white"
+                />
+              </Label>
+            )}
+          </Layer>
+        </Stage>
+        {showRulers && (
+          <>
+            <Ruler
+              orientation="HORIZONTAL"
+              length={stageSize.width}
+              offset={viewport.x}
+              scale={viewport.scale}
+              calibration={calibration}
+            />
+            <Ruler
+              orientation="VERTICAL"
+              length={stageSize.height}
+              offset={viewport.y}
+              scale={viewport.scale}
+              calibration={calibration}
+            />
+            <div
+              className="absolute top-0 left-0 bg-gray-100 border-r border-b border-gray-400 text-[10px] flex items-center justify-center pointer-events-none"
+              style={{ width: RULER_SIZE, height: RULER_SIZE }}
+            >
+              {calibration.unit}
+            </div>
+          </>
         )}
-        <Layer>
-          <Shape
-            shape={drawTarget}
-            border={drawTarget && isPaintText(drawTarget)}
-          />
-          <ShapeList
-            shapes={shapes}
-            selectedShape={selectedShape}
-            onMoveEnd={onShapeMoveEnd}
-            onResizeEnd={onShapeResizeEnd}
-            onSelect={handleSelect}
+        {editingShape && editorLayout && (
+          <TextEditor
+            key={editingShape.key}
+            shape={editingShape}
+            {...editorLayout}
+            onCommit={handleTextEditCommit}
           />
-        </Layer>
-      </Stage>
+        )}
+      </div>
     );
   }
 );
 
+/** Midpoint of and distance between the first two fingers on the stage. */
+function getTouchSpan(pointers: Map<number, Position>) {
+  const [first, second] = Array.from(pointers.values());
+
+  return {
+    center: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 },
+    distance: Math.max(Math.hypot(second.x - first.x, second.y - first.y), 1),
+  };
+}
+
+/**
+ * The size of a rectangle or ellipse being drawn and where to show it, next
+ * to the corner under the pointer.
+ */
+function getDrawReadout(shape: PaintShape, calibration: Calibration) {
+  if (isPaintRect(shape)) {
+    return {
+      text: `${formatLength(shape.width, calibration)} × ${formatLength(
+        shape.height,
+        calibration
+      )}`,
+      position: { x: shape.x + shape.width, y: shape.y + shape.height },
+    };
+  } else if (isPaintEllipse(shape)) {
+    return {
+      text: `${formatLength(shape.radiusX * 2, calibration)} × ${formatLength(
+        shape.radiusY * 2,
+        calibration
+      )}`,
+      position: { x: shape.x + shape.radiusX, y: shape.y + shape.radiusY },
+    };
+  }
+
+  return undefined;
+}
+
+/** Draws grid lines every `gridSize` pixels across the shape's size. */
+function drawGrid(context: Konva.Context, shape: Konva.Shape) {
+  const gridSize: number = shape.getAttr("gridSize");
+
+  context.beginPath();
+  for (let x = gridSize; x < shape.width(); x += gridSize) {
+    context.moveTo(x, 0);
+    context.lineTo(x, shape.height());
+  }
+  for (let y = gridSize; y < shape.height(); y += gridSize) {
+    context.moveTo(0, y);
+    context.lineTo(shape.width(), y);
+  }
+  context.strokeShape(shape);
+}
+
+/**
+ * Draggable handles on every vertex of a line, arrow, polygon or dimension
+ * line, since the Transformer can only scale their bounding box.
+ */
+const VertexHandles = ({
+  shape,
+  scale = 1,
+  onChange,
+}: {
+  shape: PaintLine | PaintArrow | PaintPolygon | PaintMeasure;
+  /** Zoom of the stage, so the handles keep their size on screen. */
+  scale?: number;
+  onChange?: (changedShapes: PaintShape[]) => void;
+}) => {
+  const getMovedPoints = (
+    e: KonvaEventObject<DragEvent>,
+    vertexIdx: number
+  ) => {
+    const localPos = rotatePoint(
+      { x: e.target.x() - shape.x, y: e.target.y() - shape.y },
+      -shape.rotation
+    );
+    const points = [...shape.points];
+    points[vertexIdx * 2] = localPos.x;
+    points[vertexIdx * 2 + 1] = localPos.y;
+    return points;
+  };
+
+  const handleDragMove =
+    (vertexIdx: number) => (e: KonvaEventObject<DragEvent>) => {
+      const node = e.target.getLayer()?.findOne(`#${shape.key}`);
+      if (node instanceof Konva.Line) {
+        node.points(getMovedPoints(e, vertexIdx));
+      }
+    };
+
+  const handleDragEnd =
+    (vertexIdx: number) => (e: KonvaEventObject<DragEvent>) => {
+      onChange?.([{ ...shape, points: getMovedPoints(e, vertexIdx) }]);
+    };
+
+  const handles = [];
+  for (let vertexIdx = 0; vertexIdx < shape.points.length / 2; vertexIdx++) {
+    const offset = rotatePoint(
+      { x: shape.points[vertexIdx * 2], y: shape.points[vertexIdx * 2 + 1] },
+      shape.rotation
+    );
+    handles.push(
+      <Circle
+        key={vertexIdx}
+        x={shape.x + offset.x}
+        y={shape.y + offset.y}
+        radius={5 / scale}
+        name={UI_NODE_NAME}
+        fill="white"
+        stroke="rgb(59,130,246)"
+        strokeWidth={1}
+        strokeScaleEnabled={false}
+        draggable
+        onDragMove={handleDragMove(vertexIdx)}
+        onDragEnd={handleDragEnd(vertexIdx)}
+      />
+    );
+  }
+
+  return <>{handles}</>;
+};
+
 const ShapeList = ({
   shapes,
-  selectedShape,
-  onMoveEnd,
-  onResizeEnd,
+  selectedKeys,
+  editingKey,
+  calibration,
   onSelect,
+  onEdit,
 }: {
   shapes: PaintShape[];
-  selectedShape?: { index: number; key: string };
-  onMoveEnd?: (index: number, pos: Position) => void;
-  onResizeEnd?: (index: number, size: Size) => void;
-  onSelect?: (index: number, key: string) => void;
+  selectedKeys: string[];
+  editingKey?: string;
+  calibration?: Calibration;
+  onSelect?: (key: string, toggle: boolean) => void;
+  onEdit?: (key: string) => void;
 }) => {
-  const handleMoveEnd = useCallback(
-    (index: number) => (pos: Position) => {
-      onMoveEnd?.(index, pos);
-    },
-    [onMoveEnd]
-  );
-
-  const handleResizeEnd = useCallback(
-    (index: number) => (size: Size) => {
-      onResizeEnd?.(index, size);
-    },
-    [onResizeEnd]
-  );
-
-  const handleSelect = useCallback(
-    (index: number, key: string) => () => {
-      onSelect?.(index, key);
-    },
-    [onSelect]
-  );
-
   return (
     <>
-      {shapes.map((shape, shapeIdx) => (
+      {shapes.map((shape) => (
         <Shape
           key={shape.key}
-          selected={selectedShape?.key === shape.key}
+          selected={selectedKeys.includes(shape.key)}
+          editing={editingKey === shape.key}
           shape={shape}
-          onMoveEnd={handleMoveEnd(shapeIdx)}
-          onResizeEnd={handleResizeEnd(shapeIdx)}
-          onSelect={
-            shape.readonly ? undefined : handleSelect(shapeIdx, shape.key)
-          }
+          calibration={calibration}
+          onSelect={shape.locked ? undefined : onSelect}
+          onEdit={shape.locked || !isPaintText(shape) ? undefined : onEdit}
         />
       ))}
     </>
   );
 };
 
+const IMAGE_FILTERS = [Konva.Filters.Brighten, Konva.Filters.Contrast];
+
+/**
+ * Draws the cropped image into `width` by `height` with the adjustments.
+ * Konva only filters cached nodes, so the node is cached again on changes.
+ */
+const AdjustedImage = ({
+  image,
+  width,
+  height,
+  adjustments,
+}: {
+  image: HTMLImageElement;
+  width: number;
+  height: number;
+  adjustments: ImageAdjustments;
+}) => {
+  const imageRef = useRef<Konva.Image>(null);
+  const { crop, flipX, flipY, brightness, contrast } = adjustments;
+  const filtered = brightness !== 0 || contrast !== 0;
+
+  useEffect(() => {
+    const node = imageRef.current;
+    if (!node) return;
+
+    if (filtered && width !== 0 && height !== 0) {
+      node.cache();
+    } else {
+      node.clearCache();
+    }
+  }, [
+    brightness,
+    contrast,
+    crop,
+    filtered,
+    flipX,
+    flipY,
+    height,
+    image,
+    width,
+  ]);
+
+  return (
+    <Image
+      ref={imageRef}
+      image={image}
+      crop={getImageCrop(image, adjustments)}
+      width={width}
+      height={height}
+      scaleX={flipX ? -1 : 1}
+      scaleY={flipY ? -1 : 1}
+      offsetX={flipX ? width : 0}
+      offsetY={flipY ? height : 0}
+      filters={filtered ? IMAGE_FILTERS : []}
+      brightness={brightness}
+      contrast={contrast}
+    />
+  );
+};
+
+/** Length of the ticks across both ends of a dimension line. */
+const MEASURE_TICK_SIZE = 10;
+
+/**
+ * A dimension line with ticks at its ends and its calibrated length above
+ * the middle. The label stays level however the line is rotated.
+ */
+const MeasureShape = ({
+  shape,
+  calibration = DEFAULT_CALIBRATION,
+  selected,
+  onSelect,
+}: {
+  shape: PaintMeasure;
+  calibration?: Calibration;
+  selected?: boolean;
+  onSelect?: (e: KonvaEventObject<PointerEvent>) => void;
+}) => {
+  const [x1, y1, x2, y2] = shape.points;
+  const length = getMeasureLength(shape);
+  // Half a tick across the line, or vertical while it has no direction.
+  const [tickX, tickY] =
+    length > 0
+      ? [
+          (-(y2 - y1) / length) * (MEASURE_TICK_SIZE / 2),
+          ((x2 - x1) / length) * (MEASURE_TICK_SIZE / 2),
+        ]
+      : [0, MEASURE_TICK_SIZE / 2];
+
+  return (
+    <Group
+      id={shape.key}
+      draggable={selected}
+      visible={shape.visible}
+      x={shape.x}
+      y={shape.y}
+      rotation={shape.rotation}
+      onPointerClick={onSelect}
+    >
+      <Line
+        points={shape.points}
+        stroke={shape.strokeColor}
+        strokeWidth={shape.strokeWidth}
+        hitStrokeWidth={Math.max(shape.strokeWidth, 10)}
+      />
+      {[
+        [x1, y1],
+        [x2, y2],
+      ].map(([x, y], endIdx) => (
+        <Line
+          key={endIdx}
+          points={[x - tickX, y - tickY, x + tickX, y + tickY]}
+          stroke={shape.strokeColor}
+          strokeWidth={shape.strokeWidth}
+        />
+      ))}
+      <Label x={(x1 + x2) / 2} y={(y1 + y2) / 2} rotation={-shape.rotation}>
+        <Tag
+          fill="rgba(255,255,255,0.8)"
+          pointerDirection="down"
+          pointerWidth={0}
+          pointerHeight={MEASURE_TICK_SIZE / 2}
+        />
+        <Text
+          text={formatLength(length, calibration)}
+          fontSize={12}
+          padding={2}
+          fill={shape.strokeColor}
+        />
+      </Label>
+    </Group>
+  );
+};
+
+/** Shows a placeholder box until the image has loaded. */
+const ImageShape = ({
+  shape,
+  selected,
+  onSelect,
+}: {
+  shape: PaintImage;
+  selected?: boolean;
+  onSelect?: (e: KonvaEventObject<PointerEvent>) => void;
+}) => {
+  const image = useImage(shape.src);
+
+  return (
+    <Group
+      id={shape.key}
+      draggable={selected}
+      visible={shape.visible}
+      x={shape.x}
+      y={shape.y}
+      rotation={shape.rotation}
+      onPointerClick={onSelect}
+    >
+      {image ? (
+        <AdjustedImage
+          image={image}
+          width={shape.width}
+          height={shape.height}
+          adjustments={shape}
+        />
+      ) : (
+        <Rect
+          width={shape.width}
+          height={shape.height}
+          fill="rgba(0,0,0,0.05)"
+          stroke="gray"
+          strokeWidth={1}
+          dash={[4, 4]}
+        />
+      )}
+    </Group>
+  );
+};
+
+/** Konva's own drawing of text, for scene functions that add to it. */
+function drawText(context: Konva.Context, text: Konva.Text) {
+  Konva.Text.prototype._sceneFunc.call(text, context);
+}
+
+function drawTextWithBackground(context: Konva.Context, shape: Konva.Shape) {
+  if (!(shape instanceof Konva.Text)) return;
+
+  context.setAttr("fillStyle", shape.getAttr("backgroundColor"));
+  context.fillRect(0, 0, shape.width(), shape.height());
+  drawText(context, shape);
+}
+
 const Shape = ({
   shape,
   selected,
+  editing,
   border,
+  calibration,
   onSelect,
-  onMoveEnd,
-  onResizeEnd,
+  onEdit,
 }: {
   shape?: PaintShape;
   selected?: boolean;
+  /** Hides a text node while the overlay editor covers it. */
+  editing?: boolean;
   border?: boolean;
-  onSelect?: VoidFunction;
-  onMoveEnd?: (pos: Position) => void;
-  onResizeEnd?: (size: Size) => void;
+  /** Units for the labels of dimension lines. */
+  calibration?: Calibration;
+  /** Shared by all shapes, so that they keep their nodes between renders. */
+  onSelect?: (key: string, toggle: boolean) => void;
+  onEdit?: (key: string) => void;
 }) => {
-  const [node, setNode] = useState<
-    Konva.Rect | Konva.Ellipse | Konva.Text | null
-  >();
-  const trRef = React.useRef<Konva.Transformer>(null);
+  const key = shape?.key;
+  const handleSelect = useMemo(
+    () =>
+      onSelect && key !== undefined
+        ? (e: KonvaEventObject<PointerEvent>) => onSelect(key, e.evt.shiftKey)
+        : undefined,
+    [key, onSelect]
+  );
+  const handleEdit = useMemo(
+    () => (onEdit && key !== undefined ? () => onEdit(key) : undefined),
+    [key, onEdit]
+  );
 
   const shapeComp = useMemo(() => {
     if (!shape) return null;
 
-    const handleDragEnd = (e: KonvaEventObject<DragEvent>) => {
-      onMoveEnd?.({ x: e.target.x(), y: e.target.y() });
-    };
-
-    const handleTransformEnd = (e: KonvaEventObject<DragEvent>) => {
-      const node = e.target;
-
-      const [scaleX, scaleY, nodeWidth, nodeHeight] = [
-        node.scaleX(),
-        node.scaleY(),
-        node.width(),
-        node.height(),
-      ];
-      node.scaleX(1);
-      node.scaleY(1);
-      const [width, height] = [scaleX * nodeWidth, scaleY * nodeHeight];
-
-      onResizeEnd?.({ width, height });
-    };
     if (isPaintRect(shape)) {
       return (
         <Rect
+          id={shape.key}
           draggable={selected}
-          ref={(node) => {
-            setNode(node);
-          }}
+          visible={shape.visible}
           x={shape.x}
           y={shape.y}
+          rotation={shape.rotation}
           width={shape.width}
           height={shape.height}
           fill={shape.fillColor}
           stroke={shape.strokeColor}
-          strokeWidth={1}
-          onClick={onSelect}
-          onDragEnd={handleDragEnd}
-          onTransformEnd={handleTransformEnd}
+          strokeWidth={shape.strokeWidth}
+          dash={shape.dash}
+          onPointerClick={handleSelect}
         />
       );
     } else if (isPaintEllipse(shape)) {
       return (
         <Ellipse
+          id={shape.key}
           draggable={selected}
-          ref={(node) => {
-            setNode(node);
-          }}
+          visible={shape.visible}
           x={shape.x}
           y={shape.y}
+          rotation={shape.rotation}
           radiusX={shape.radiusX}
           radiusY={shape.radiusY}
           fill={shape.fillColor}
           stroke={shape.strokeColor}
-          strokeWidth={1}
-          onClick={onSelect}
-          onDragEnd={handleDragEnd}
-          onTransformEnd={handleTransformEnd}
+          strokeWidth={shape.strokeWidth}
+          dash={shape.dash}
+          onPointerClick={handleSelect}
         />
       );
     } else if (isPaintText(shape)) {
       return (
         <Text
+          id={shape.key}
           draggable={selected}
-          ref={(node) => {
-            setNode(node);
-          }}
+          visible={shape.visible && !editing}
           x={shape.x}
           y={shape.y}
+          rotation={shape.rotation}
           width={shape.width}
-          color={shape.color}
+          fill={shape.color}
           text={shape.text}
+          fontFamily={shape.fontFamily}
           fontSize={shape.fontSize}
-          onClick={onSelect}
-          onDragEnd={handleDragEnd}
-          onTransform={handleTransformEnd}
+          fontStyle={getFontStyle(shape)}
+          textDecoration={shape.underline ? "underline" : ""}
+          align={shape.align}
+          lineHeight={shape.lineHeight}
+          padding={shape.padding}
+          stroke={shape.outlineWidth > 0 ? shape.outlineColor : undefined}
+          strokeWidth={shape.outlineWidth}
+          fillAfterStrokeEnabled
+          backgroundColor={shape.backgroundColor}
+          sceneFunc={shape.backgroundColor ? drawTextWithBackground : undefined}
+          onPointerClick={handleSelect}
+          onPointerDblClick={handleEdit}
+        />
+      );
+    } else if (isPaintLine(shape)) {
+      // Canvas strokes have one width, so pen strokes are filled outlines.
+      // The zero-width stroke still widens the area that can be clicked.
+      const widths = getLineWidths(shape);
+      return (
+        <Line
+          id={shape.key}
+          draggable={selected}
+          visible={shape.visible}
+          x={shape.x}
+          y={shape.y}
+          rotation={shape.rotation}
+          points={
+            widths ? getStrokeOutline(shape.points, widths) : shape.points
+          }
+          closed={!!widths}
+          fill={widths ? shape.strokeColor : undefined}
+          stroke={shape.strokeColor}
+          strokeWidth={widths ? 0 : shape.strokeWidth}
+          hitStrokeWidth={Math.max(shape.strokeWidth, 10)}
+          dash={shape.dash}
+          opacity={shape.opacity}
+          tension={widths ? 0 : shape.tension}
+          lineCap="round"
+          lineJoin="round"
+          onPointerClick={handleSelect}
+        />
+      );
+    } else if (isPaintArrow(shape)) {
+      return (
+        <Arrow
+          id={shape.key}
+          draggable={selected}
+          visible={shape.visible}
+          x={shape.x}
+          y={shape.y}
+          rotation={shape.rotation}
+          points={shape.points}
+          stroke={shape.strokeColor}
+          fill={shape.strokeColor}
+          strokeWidth={shape.strokeWidth}
+          hitStrokeWidth={Math.max(shape.strokeWidth, 10)}
+          dash={shape.dash}
+          pointerLength={shape.pointerLength}
+          pointerWidth={shape.pointerWidth}
+          onPointerClick={handleSelect}
+        />
+      );
+    } else if (isPaintPolygon(shape)) {
+      return (
+        <Line
+          id={shape.key}
+          draggable={selected}
+          visible={shape.visible}
+          x={shape.x}
+          y={shape.y}
+          rotation={shape.rotation}
+          points={shape.points}
+          stroke={shape.strokeColor}
+          fill={shape.fillColor}
+          strokeWidth={shape.strokeWidth}
+          dash={shape.dash}
+          closed
+          onPointerClick={handleSelect}
         />
       );
+    } else if (isPaintImage(shape)) {
+      return (
+        <ImageShape shape={shape} selected={selected} onSelect={handleSelect} />
+      );
+    } else if (isPaintMeasure(shape)) {
+      return (
+        <MeasureShape
+          shape={shape}
+          calibration={calibration}
+          selected={selected}
+          onSelect={handleSelect}
+        />
+      );
+    } else if (isPaintGroup(shape)) {
+      return (
+        <Group
+          id={shape.key}
+          draggable={selected}
+          visible={shape.visible}
+          x={shape.x}
+          y={shape.y}
+          rotation={shape.rotation}
+          onPointerClick={handleSelect}
+        >
+          {shape.children.map((child) => (
+            <Shape key={child.key} shape={child} calibration={calibration} />
+          ))}
+        </Group>
+      );
     }
 
     return null;
-  }, [onMoveEnd, onResizeEnd, onSelect, shape, selected]);
-
-  useEffect(() => {
-    if (!trRef.current || !node || !selected) return;
-
-    trRef.current.nodes([node]);
-    trRef.current.getLayer()?.batchDraw();
-
-    return () => {
-      // eslint-disable-next-line react-hooks/exhaustive-deps
-      trRef.current?.detach();
-    };
-  }, [node, selected]);
+  }, [calibration, editing, handleEdit, handleSelect, shape, selected]);
 
   return (
     <>
       {shapeComp}
-      <Transformer
-        ref={trRef}
-        enabledAnchors={
-          shape && isPaintText(shape)
-            ? ["middle-left", "middle-right"]
-            : undefined
-        }
-        rotateEnabled={false}
-      />
       {border && shape && isPaintText(shape) && (
         <Rect
-          {...shape}
-          height={shape.fontSize}
+          x={shape.x}
+          y={shape.y}
+          width={shape.width}
+          height={shape.fontSize + shape.padding * 2}
           stroke="black"
           strokeWidth={1}
         />
@@ -0,0 +1,155 @@
+import { fireEvent, renderHook } from "@testing-library/react";
+
+import {
+  formatKeys,
+  Keybinding,
+  matchesKeys,
+  useKeybindings,
+  useRegisteredKeybindings,
+} from "./keybindings";
+
+const createBinding = (id: string, keys: string[]): Keybinding => ({
+  id,
+  title: id,
+  category: "Test",
+  keys,
+  run: jest.fn(),
+});
+
+const keyDown = (init: KeyboardEventInit) => new KeyboardEvent("keydown", init);
+
+describe("matchesKeys", () => {
+  it("matches Mod with Ctrl or Cmd", () => {
+    expect(matchesKeys(keyDown({ key: "z", ctrlKey: true }), "Mod+Z")).toBe(
+      true
+    );
+    expect(matchesKeys(keyDown({ key: "z", metaKey: true }), "Mod+Z")).toBe(
+      true
+    );
+    expect(matchesKeys(keyDown({ key: "z" }), "Mod+Z")).toBe(false);
+  });
+
+  it("requires exactly the listed modifiers", () => {
+    expect(matchesKeys(keyDown({ key: "z", ctrlKey: true }), "Z")).toBe(false);
+    expect(
+      matchesKeys(keyDown({ key: "Z", ctrlKey: true, shiftKey: true }), "Mod+Z")
+    ).toBe(false);
+    expect(
+      matchesKeys(
+        keyDown({ key: "Z", ctrlKey: true, shiftKey: true }),
+        "Mod+Shift+Z"
+      )
+    ).toBe(true);
+    expect(matchesKeys(keyDown({ key: "r", altKey: true }), "Alt+R")).toBe(
+      true
+    );
+  });
+
+  it("ignores the case of letters", () => {
+    expect(matchesKeys(keyDown({ key: "r" }), "R")).toBe(true);
+    expect(matchesKeys(keyDown({ key: "R" }), "r")).toBe(true);
+  });
+
+  it("ignores Shift for symbols", () => {
+    expect(matchesKeys(keyDown({ key: "?", shiftKey: true }), "?")).toBe(true);
+    expect(matchesKeys(keyDown({ key: "+", shiftKey: true }), "Mod++")).toBe(
+      false
+    );
+  });
+
+  it("matches named keys", () => {
+    expect(
+      matchesKeys(keyDown({ key: "ArrowUp", shiftKey: true }), "Shift+ArrowUp")
+    ).toBe(true);
+    expect(matchesKeys(keyDown({ key: "ArrowUp" }), "Shift+ArrowUp")).toBe(
+      false
+    );
+  });
+});
+
+describe("formatKeys", () => {
+  it("labels keys for display", () => {
+    expect(formatKeys("Shift+ArrowUp")).toBe("SHIFT+↑");
+    expect(formatKeys("Escape")).toBe("Esc");
+  });
+});
+
+describe("useKeybindings", () => {
+  it("runs the binding of the pressed keys", () => {
+    const undo = createBinding("undo", ["Mod+Z"]);
+    const redo = createBinding("redo", ["Mod+Shift+Z", "Mod+Y"]);
+    renderHook(() => useKeybindings([undo, redo]));
+
+    fireEvent.keyDown(window, { key: "y", ctrlKey: true });
+
+    expect(redo.run).toHaveBeenCalledTimes(1);
+    expect(undo.run).not.toHaveBeenCalled();
+  });
+
+  it("prefers later scopes, unless their binding is disabled", () => {
+    const editorEscape = createBinding("deselect", ["Escape"]);
+    const dialogEscape = createBinding("close", ["Escape"]);
+    renderHook(() => useKeybindings([editorEscape]));
+    const { rerender: rerenderDialog, unmount: closeDialog } = renderHook(
+      ({ enabled }) => useKeybindings([{ ...dialogEscape, enabled }]),
+      { initialProps: { enabled: true } }
+    );
+
+    fireEvent.keyDown(window, { key: "Escape" });
+    expect(dialogEscape.run).toHaveBeenCalledTimes(1);
+    expect(editorEscape.run).not.toHaveBeenCalled();
+
+    rerenderDialog({ enabled: false });
+    fireEvent.keyDown(window, { key: "Escape" });
+    expect(dialogEscape.run).toHaveBeenCalledTimes(1);
+    expect(editorEscape.run).toHaveBeenCalledTimes(1);
+
+    closeDialog();
+    fireEvent.keyDown(window, { key: "Escape" });
+    expect(editorEscape.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips keys typed into editable elements", () => {
+    const remove = createBinding("delete", ["Backspace"]);
+    renderHook(() => useKeybindings([remove]));
+
+    ["input", "textarea", "select"].forEach((tagName) => {
+      const element = document.createElement(tagName);
+      document.body.appendChild(element);
+      fireEvent.keyDown(element, { key: "Backspace" });
+      element.remove();
+    });
+    expect(remove.run).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(document.body, { key: "Backspace" });
+    expect(remove.run).toHaveBeenCalledTimes(1);
+  });
+
+  it("prevents the default action of handled keys only", () => {
+    renderHook(() => useKeybindings([createBinding("select-all", ["Mod+A"])]));
+
+    const handled = keyDown({ key: "a", ctrlKey: true, cancelable: true });
+    const unhandled = keyDown({ key: "b", ctrlKey: true, cancelable: true });
+    window.dispatchEvent(handled);
+    window.dispatchEvent(unhandled);
+
+    expect(handled.defaultPrevented).toBe(true);
+    expect(unhandled.defaultPrevented).toBe(false);
+  });
+
+  it("lists the bindings of every mounted scope", () => {
+    const undo = createBinding("undo", ["Mod+Z"]);
+    const palette = createBinding("palette", []);
+    renderHook(() => useKeybindings([undo]));
+    const { unmount } = renderHook(() => useKeybindings([palette]));
+    const { result } = renderHook(() => useRegisteredKeybindings());
+
+    expect(result.current.map((binding) => binding.id)).toEqual([
+      "undo",
+      "palette",
+    ]);
+
+    unmount();
+    expect(result.current.map((binding) => binding.id)).toEqual(["undo"]);
+  });
+});
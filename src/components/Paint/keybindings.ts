@@ -0,0 +1,135 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+import { isEditableTarget } from "./func";
+
+/**
+ * An action of the editor. Every binding is listed in the command palette;
+ * those with keys also get a keyboard shortcut and show up in the help.
+ */
+export type Keybinding = {
+  id: string;
+  title: string;
+  category: string;
+  /**
+   * Key combinations such as "R", "Shift+ArrowUp" or "Mod+Z", where Mod is
+   * Ctrl, or Cmd on a Mac. Any of them runs the action.
+   */
+  keys: string[];
+  /** Disabled actions are left out of the palette and give way to others. */
+  enabled?: boolean;
+  run: VoidFunction;
+};
+
+type Scope = { bindings: Keybinding[] };
+
+const IS_MAC =
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** Later scopes take precedence, e.g. an open dialog over the editor. */
+const scopes: Scope[] = [];
+const listeners = new Set<VoidFunction>();
+let snapshot: Keybinding[] = [];
+
+function notify() {
+  snapshot = scopes.flatMap((scope) => scope.bindings);
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: VoidFunction) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return snapshot;
+}
+
+function normalizeKey(key: string) {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Whether the event is the key combination. Shift is ignored for symbols such
+ * as "?", which already need it on most keyboard layouts.
+ */
+export function matchesKeys(e: KeyboardEvent, keys: string) {
+  const modifiers = keys.split("+");
+  const key = modifiers.pop() ?? "";
+  const isSymbol = key.length === 1 && !/[a-z0-9]/i.test(key);
+
+  return (
+    (e.ctrlKey || e.metaKey) === modifiers.includes("Mod") &&
+    e.altKey === modifiers.includes("Alt") &&
+    (isSymbol || e.shiftKey === modifiers.includes("Shift")) &&
+    normalizeKey(e.key) === normalizeKey(key)
+  );
+}
+
+const KEY_LABELS: { [key: string]: string } = {
+  Mod: IS_MAC ? "⌘" : "Ctrl",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Escape: "Esc",
+};
+
+/** Formats a key combination for display, e.g. "Ctrl+Shift+Z". */
+export function formatKeys(keys: string) {
+  return keys
+    .split("+")
+    .map((key) => KEY_LABELS[key] ?? key.toUpperCase())
+    .join("+");
+}
+
+function handleKeyDown(e: KeyboardEvent) {
+  // Typing into inputs never triggers commands.
+  if (e.defaultPrevented || isEditableTarget(e.target)) return;
+
+  for (let idx = scopes.length - 1; idx >= 0; idx--) {
+    const binding = scopes[idx].bindings.find(
+      (binding) =>
+        binding.enabled !== false &&
+        binding.keys.some((keys) => matchesKeys(e, keys))
+    );
+    if (binding) {
+      e.preventDefault();
+      binding.run();
+      return;
+    }
+  }
+}
+
+/**
+ * Registers the bindings while the component is mounted. All bindings share
+ * one keydown listener, and only keys that run an action are handled.
+ */
+export function useKeybindings(bindings: Keybinding[]) {
+  const [scope] = useState<Scope>(() => ({ bindings: [] }));
+
+  useEffect(() => {
+    scopes.push(scope);
+    if (scopes.length === 1) window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      scopes.splice(scopes.indexOf(scope), 1);
+      if (scopes.length === 0) {
+        window.removeEventListener("keydown", handleKeyDown);
+      }
+      notify();
+    };
+  }, [scope]);
+
+  useEffect(() => {
+    scope.bindings = bindings;
+    notify();
+  }, [bindings, scope]);
+}
+
+/** All registered bindings, for the command palette and the help. */
+export function useRegisteredKeybindings() {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
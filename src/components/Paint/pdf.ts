@@ -0,0 +1,800 @@
+import {
+  ImageAdjustments,
+  PaintMeasure,
+  PaintShape,
+  PaintText,
+  Size,
+  TextStyle,
+} from ".";
+import { getBackgroundPlacement } from "./export";
+import {
+  DEFAULT_BACKGROUND,
+  DEFAULT_CALIBRATION,
+  formatLength,
+  getFontStyle,
+  getImageCrop,
+  getLineWidths,
+  getMeasureLength,
+  getStrokeOutline,
+  isPaintArrow,
+  isPaintEllipse,
+  isPaintGroup,
+  isPaintImage,
+  isPaintLine,
+  isPaintMeasure,
+  isPaintPolygon,
+  isPaintRect,
+  isPaintText,
+  parseColor,
+} from "./func";
+import { getLoadedImage } from "./images";
+import { getLinePath, SvgExportInput, TextLayout } from "./svg";
+
+/** PDF user space units are points, 72 per inch; CSS pixels are 96 per inch. */
+const POINTS_PER_PIXEL = 0.75;
+/** Images are embedded at their natural size, but at most this large. */
+const MAX_PDF_IMAGE_SIZE = 4096;
+const PDF_IMAGE_QUALITY = 0.92;
+/** Bezier handle length that makes four curves approximate an ellipse. */
+const ELLIPSE_KAPPA = 0.5522847498;
+/**
+ * Distance from the middle of a line of text to its baseline, in font sizes.
+ * Konva places text by its middle, PDF by its baseline.
+ */
+const BASELINE_OFFSET = 0.35;
+
+/** The standard PDF fonts, which every viewer has, by family and style. */
+const PDF_FONTS: { [family: string]: string[] } = {
+  SANS: [
+    "Helvetica",
+    "Helvetica-Bold",
+    "Helvetica-Oblique",
+    "Helvetica-BoldOblique",
+  ],
+  SERIF: ["Times-Roman", "Times-Bold", "Times-Italic", "Times-BoldItalic"],
+  MONO: ["Courier", "Courier-Bold", "Courier-Oblique", "Courier-BoldOblique"],
+};
+
+/** Characters WinAnsiEncoding places where Latin-1 has control codes. */
+const WIN_ANSI_CODES: { [char: string]: number } = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+type PdfFont = Pick<TextStyle, "fontFamily" | "fontSize" | "bold" | "italic">;
+
+/** Dimension labels, as drawn on the stage. */
+const LABEL_FONT: PdfFont = {
+  fontFamily: "Arial",
+  fontSize: 12,
+  bold: false,
+  italic: false,
+};
+
+type PdfImage = {
+  width: number;
+  height: number;
+  jpeg: Uint8Array;
+  /** Opacity of every pixel, left out for opaque images. */
+  alpha?: Uint8Array;
+};
+
+/** The content stream of the page and the resources it refers to. */
+type PdfPage = {
+  operators: string[];
+  /** Font resource names by base font. */
+  fonts: Map<string, string>;
+  /** Graphics state resource names by fill and stroke opacity. */
+  opacities: Map<string, string>;
+  images: PdfImage[];
+};
+
+type PaintOptions = {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: number[];
+  opacity?: number;
+  /** Round caps and joins, as used for freehand strokes. */
+  round?: boolean;
+};
+
+function formatNumber(value: number) {
+  // toFixed never uses exponents, which PDF does not understand.
+  return String(Number(value.toFixed(3)));
+}
+
+function formatNumbers(...values: number[]) {
+  return values.map(formatNumber).join(" ");
+}
+
+function dataUrlToBytes(dataUrl: string) {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let idx = 0; idx < binary.length; idx++) {
+    bytes[idx] = binary.charCodeAt(idx);
+  }
+  return bytes;
+}
+
+function textToBytes(text: string) {
+  return new TextEncoder().encode(text);
+}
+
+/**
+ * Writes text as a PDF string in WinAnsiEncoding, the encoding of the
+ * standard fonts. Characters it lacks become question marks.
+ */
+function toPdfString(text: string) {
+  let result = "(";
+  for (const char of Array.from(text)) {
+    const code = char.charCodeAt(0);
+    let byte = 63;
+    if (char.length === 1 && (code < 0x80 || (code >= 0xa0 && code <= 0xff))) {
+      byte = code;
+    } else if (WIN_ANSI_CODES[char] !== undefined) {
+      byte = WIN_ANSI_CODES[char];
+    }
+
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      result += `\\${String.fromCharCode(byte)}`;
+    } else if (byte < 0x20 || byte > 0x7e) {
+      result += `\\${byte.toString(8).padStart(3, "0")}`;
+    } else {
+      result += String.fromCharCode(byte);
+    }
+  }
+  return `${result})`;
+}
+
+function getPdfFont({ fontFamily, bold, italic }: PdfFont) {
+  const family = fontFamily.toLowerCase();
+  let fonts = PDF_FONTS.SANS;
+  if (family.includes("courier") || family.includes("mono")) {
+    fonts = PDF_FONTS.MONO;
+  } else if (family.includes("times") || family.includes("georgia")) {
+    fonts = PDF_FONTS.SERIF;
+  }
+
+  return fonts[(bold ? 1 : 0) + (italic ? 2 : 0)];
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+/** Width of text as the browser, and so Konva, lays it out. */
+function measureText(text: string, font: string) {
+  if (measureContext === undefined) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return 0;
+
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+}
+
+function getTransform(shape: PaintShape) {
+  const radians = (shape.rotation * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(radians), Math.sin(radians)];
+  return `${formatNumbers(cos, sin, -sin, cos, shape.x, shape.y)} cm`;
+}
+
+function getOpacityName(
+  page: PdfPage,
+  fillOpacity: number,
+  strokeOpacity: number
+) {
+  const key = `${formatNumber(fillOpacity)} ${formatNumber(strokeOpacity)}`;
+  let name = page.opacities.get(key);
+  if (!name) {
+    name = `GS${page.opacities.size}`;
+    page.opacities.set(key, name);
+  }
+  return name;
+}
+
+/**
+ * Sets the colors, opacity and line style. Returns which of fill and stroke
+ * are visible at all.
+ */
+function setPaint(page: PdfPage, options: PaintOptions) {
+  const { operators } = page;
+  const opacity = options.opacity ?? 1;
+  const fill = options.fill ? parseColor(options.fill) : undefined;
+  const stroke =
+    options.stroke && (options.strokeWidth ?? 1) > 0
+      ? parseColor(options.stroke)
+      : undefined;
+  const hasFill = !!fill && fill.a > 0;
+  const hasStroke = !!stroke && stroke.a > 0;
+
+  if (fill && hasFill) {
+    operators.push(
+      `${formatNumbers(fill.r / 255, fill.g / 255, fill.b / 255)} rg`
+    );
+  }
+  if (stroke && hasStroke) {
+    operators.push(
+      `${formatNumbers(stroke.r / 255, stroke.g / 255, stroke.b / 255)} RG`,
+      `${formatNumber(options.strokeWidth ?? 1)} w`
+    );
+    if (options.dash && options.dash.length > 0) {
+      operators.push(`[${formatNumbers(...options.dash)}] 0 d`);
+    }
+    if (options.round) operators.push("1 J 1 j");
+  }
+
+  const fillOpacity = (fill?.a ?? 1) * opacity;
+  const strokeOpacity = (stroke?.a ?? 1) * opacity;
+  if (fillOpacity < 1 || strokeOpacity < 1) {
+    operators.push(`/${getOpacityName(page, fillOpacity, strokeOpacity)} gs`);
+  }
+
+  return { hasFill, hasStroke };
+}
+
+/** Fills and strokes a path like Konva does: the fill first. */
+function paintPath(page: PdfPage, path: string, options: PaintOptions) {
+  page.operators.push("q");
+  const { hasFill, hasStroke } = setPaint(page, options);
+  if (hasFill || hasStroke) {
+    page.operators.push(path, hasFill && hasStroke ? "B" : hasFill ? "f" : "S");
+  }
+  page.operators.push("Q");
+}
+
+/** Converts the absolute path commands that `getLinePath` produces. */
+function svgPathToPdf(path: string) {
+  const tokens = path.trim().split(/[\s,]+/);
+  const operators: string[] = [];
+  let [x, y] = [0, 0];
+  let idx = 0;
+  const next = () => Number(tokens[idx++]);
+
+  while (idx < tokens.length) {
+    const command = tokens[idx++];
+    if (command === "M" || command === "L") {
+      [x, y] = [next(), next()];
+      operators.push(`${formatNumbers(x, y)} ${command === "M" ? "m" : "l"}`);
+    } else if (command === "Q") {
+      // PDF only has cubic curves, which can represent quadratic ones.
+      const [qx, qy, endX, endY] = [next(), next(), next(), next()];
+      operators.push(
+        `${formatNumbers(
+          x + (2 / 3) * (qx - x),
+          y + (2 / 3) * (qy - y),
+          endX + (2 / 3) * (qx - endX),
+          endY + (2 / 3) * (qy - endY),
+          endX,
+          endY
+        )} c`
+      );
+      [x, y] = [endX, endY];
+    } else if (command === "C") {
+      const values = [next(), next(), next(), next(), next(), next()];
+      operators.push(`${formatNumbers(...values)} c`);
+      [x, y] = values.slice(4);
+    } else if (command === "Z") {
+      operators.push("h");
+    }
+  }
+
+  return operators.join(" ");
+}
+
+function getPolygonPath(points: number[], closed: boolean) {
+  const operators = [];
+  for (let idx = 0; idx < points.length; idx += 2) {
+    operators.push(
+      `${formatNumbers(points[idx], points[idx + 1])} ${idx === 0 ? "m" : "l"}`
+    );
+  }
+  if (closed) operators.push("h");
+  return operators.join(" ");
+}
+
+function getEllipsePath(radiusX: number, radiusY: number) {
+  const [kx, ky] = [radiusX * ELLIPSE_KAPPA, radiusY * ELLIPSE_KAPPA];
+  return [
+    `${formatNumbers(radiusX, 0)} m`,
+    `${formatNumbers(radiusX, ky, kx, radiusY, 0, radiusY)} c`,
+    `${formatNumbers(-kx, radiusY, -radiusX, ky, -radiusX, 0)} c`,
+    `${formatNumbers(-radiusX, -ky, -kx, -radiusY, 0, -radiusY)} c`,
+    `${formatNumbers(kx, -radiusY, radiusX, -ky, radiusX, 0)} c`,
+    "h",
+  ].join(" ");
+}
+
+/**
+ * Writes lines of text. The page is flipped so y points down like on the
+ * stage, so every line flips its glyphs back upright.
+ */
+function writeText(
+  page: PdfPage,
+  lines: { text: string; x: number; y: number }[],
+  font: PdfFont,
+  renderMode: number
+) {
+  const baseFont = getPdfFont(font);
+  let name = page.fonts.get(baseFont);
+  if (!name) {
+    name = `F${page.fonts.size}`;
+    page.fonts.set(baseFont, name);
+  }
+
+  page.operators.push("BT", `/${name} ${formatNumber(font.fontSize)} Tf`);
+  page.operators.push(`${renderMode} Tr`);
+  lines.forEach(({ text, x, y }) => {
+    page.operators.push(
+      `${formatNumbers(1, 0, 0, -1, x, y)} Tm`,
+      `${toPdfString(text)} Tj`
+    );
+  });
+  page.operators.push("ET");
+}
+
+function textToPdf(page: PdfPage, shape: PaintText, layout?: TextLayout) {
+  const lines = layout?.lines ?? shape.text.split("\n");
+  const width = layout?.width ?? shape.width;
+  const lineHeight = shape.fontSize * shape.lineHeight;
+  const height =
+    layout?.height ?? lines.length * lineHeight + shape.padding * 2;
+  const font = `${getFontStyle(shape)} ${shape.fontSize}px ${shape.fontFamily}`;
+
+  const placedLines = lines.map((text, lineIdx) => {
+    const lineWidth = measureText(text, font);
+    let x = shape.padding;
+    if (shape.align === "center") {
+      x = (width - lineWidth) / 2;
+    } else if (shape.align === "right") {
+      x = width - shape.padding - lineWidth;
+    }
+    const middle = shape.padding + lineIdx * lineHeight + lineHeight / 2;
+
+    return { text, x, y: middle, width: lineWidth };
+  });
+  const baselines = placedLines.map((line) => ({
+    ...line,
+    y: line.y + shape.fontSize * BASELINE_OFFSET,
+  }));
+
+  page.operators.push("q", getTransform(shape));
+  if (shape.backgroundColor) {
+    paintPath(page, `0 0 ${formatNumbers(width, height)} re`, {
+      fill: shape.backgroundColor,
+    });
+  }
+
+  // The outline goes under the fill, like Konva's fillAfterStrokeEnabled.
+  if (shape.outlineWidth > 0) {
+    page.operators.push("q");
+    const { hasStroke } = setPaint(page, {
+      stroke: shape.outlineColor,
+      strokeWidth: shape.outlineWidth,
+    });
+    if (hasStroke) writeText(page, baselines, shape, 1);
+    page.operators.push("Q");
+  }
+
+  page.operators.push("q");
+  const { hasFill } = setPaint(page, { fill: shape.color });
+  if (hasFill) writeText(page, baselines, shape, 0);
+  page.operators.push("Q");
+
+  if (shape.underline) {
+    const underlines = placedLines.map(({ x, y, width }) =>
+      getPolygonPath(
+        [x, y + shape.fontSize / 2, x + width, y + shape.fontSize / 2],
+        false
+      )
+    );
+    paintPath(page, underlines.join(" "), {
+      stroke: shape.color,
+      strokeWidth: shape.fontSize / 15,
+    });
+  }
+  page.operators.push("Q");
+}
+
+/**
+ * Draws the cropped, flipped and adjusted image into a canvas, the same way
+ * Konva shows it, and encodes it for embedding.
+ */
+function rasterizeImage(
+  image: HTMLImageElement,
+  adjustments: ImageAdjustments
+): PdfImage | undefined {
+  const crop = getImageCrop(image, adjustments);
+  const scale = Math.min(
+    1,
+    MAX_PDF_IMAGE_SIZE / Math.max(crop.width, crop.height)
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) return undefined;
+
+  const { width, height } = canvas;
+  context.translate(
+    adjustments.flipX ? width : 0,
+    adjustments.flipY ? height : 0
+  );
+  context.scale(adjustments.flipX ? -1 : 1, adjustments.flipY ? -1 : 1);
+  context.drawImage(
+    image,
+    crop.x,
+    crop.y,
+    crop.width,
+    crop.height,
+    0,
+    0,
+    width,
+    height
+  );
+
+  const imageData = context.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  const { brightness, contrast } = adjustments;
+  if (brightness !== 0 || contrast !== 0) {
+    // Konva brightens first and then scales about the middle.
+    const slope = Math.pow((contrast + 100) / 100, 2);
+    const intercept = (slope * brightness + 0.5 - 0.5 * slope) * 255;
+    for (let idx = 0; idx < data.length; idx += 4) {
+      for (let channel = 0; channel < 3; channel++) {
+        data[idx + channel] = slope * data[idx + channel] + intercept;
+      }
+    }
+    context.putImageData(imageData, 0, 0);
+  }
+
+  let alpha: Uint8Array | undefined;
+  for (let idx = 3; idx < data.length; idx += 4) {
+    if (data[idx] < 255) {
+      alpha = new Uint8Array(width * height);
+      for (let pixelIdx = 0; pixelIdx < alpha.length; pixelIdx++) {
+        alpha[pixelIdx] = data[pixelIdx * 4 + 3];
+      }
+      break;
+    }
+  }
+
+  return {
+    width,
+    height,
+    jpeg: dataUrlToBytes(canvas.toDataURL("image/jpeg", PDF_IMAGE_QUALITY)),
+    alpha,
+  };
+}
+
+/** Draws the image into the rectangle from the origin to `size`. */
+function imageToPdf(
+  page: PdfPage,
+  image: HTMLImageElement,
+  size: Size,
+  adjustments: ImageAdjustments
+) {
+  const pdfImage = rasterizeImage(image, adjustments);
+  if (!pdfImage) return;
+
+  page.images.push(pdfImage);
+  // Images fill the unit square with their top row at the top, y = 1.
+  page.operators.push(
+    "q",
+    `${formatNumbers(size.width, 0, 0, -size.height, 0, size.height)} cm`,
+    `/Im${page.images.length - 1} Do`,
+    "Q"
+  );
+}
+
+function measureToPdf(
+  page: PdfPage,
+  shape: PaintMeasure,
+  calibration = DEFAULT_CALIBRATION
+) {
+  const [x1, y1, x2, y2] = shape.points;
+  const length = getMeasureLength(shape);
+  const [tickX, tickY] =
+    length > 0 ? [(-(y2 - y1) / length) * 5, ((x2 - x1) / length) * 5] : [0, 5];
+
+  page.operators.push("q", getTransform(shape));
+  paintPath(
+    page,
+    [
+      getPolygonPath([x1, y1, x2, y2], false),
+      getPolygonPath([x1 - tickX, y1 - tickY, x1 + tickX, y1 + tickY], false),
+      getPolygonPath([x2 - tickX, y2 - tickY, x2 + tickX, y2 + tickY], false),
+    ].join(" "),
+    { stroke: shape.strokeColor, strokeWidth: shape.strokeWidth }
+  );
+
+  // The label stays level however the measurement is rotated.
+  const label = formatLength(length, calibration);
+  const radians = (-shape.rotation * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(radians), Math.sin(radians)];
+  const line = {
+    text: label,
+    x: -measureText(label, "12px Arial") / 2,
+    y: -7,
+  };
+  page.operators.push(
+    "q",
+    `${formatNumbers(cos, sin, -sin, cos, (x1 + x2) / 2, (y1 + y2) / 2)} cm`,
+    "q"
+  );
+  setPaint(page, { stroke: "#ffffff", strokeWidth: 3 });
+  writeText(page, [line], LABEL_FONT, 1);
+  page.operators.push("Q", "q");
+  setPaint(page, { fill: shape.strokeColor });
+  writeText(page, [line], LABEL_FONT, 0);
+  page.operators.push("Q", "Q", "Q");
+}
+
+function shapeToPdf(
+  page: PdfPage,
+  shape: PaintShape,
+  input: SvgExportInput
+): void {
+  if (isPaintRect(shape)) {
+    page.operators.push("q", getTransform(shape));
+    paintPath(
+      page,
+      `${formatNumbers(
+        Math.min(0, shape.width),
+        Math.min(0, shape.height),
+        Math.abs(shape.width),
+        Math.abs(shape.height)
+      )} re`,
+      {
+        fill: shape.fillColor,
+        stroke: shape.strokeColor,
+        strokeWidth: shape.strokeWidth,
+        dash: shape.dash,
+      }
+    );
+    page.operators.push("Q");
+  } else if (isPaintEllipse(shape)) {
+    page.operators.push("q", getTransform(shape));
+    paintPath(page, getEllipsePath(shape.radiusX, shape.radiusY), {
+      fill: shape.fillColor,
+      stroke: shape.strokeColor,
+      strokeWidth: shape.strokeWidth,
+      dash: shape.dash,
+    });
+    page.operators.push("Q");
+  } else if (isPaintText(shape)) {
+    textToPdf(page, shape, input.getTextLayout?.(shape));
+  } else if (isPaintLine(shape)) {
+    const widths = getLineWidths(shape);
+    page.operators.push("q", getTransform(shape));
+    if (widths) {
+      paintPath(
+        page,
+        getPolygonPath(getStrokeOutline(shape.points, widths), true),
+        { fill: shape.strokeColor, opacity: shape.opacity }
+      );
+    } else {
+      paintPath(page, svgPathToPdf(getLinePath(shape.points, shape.tension)), {
+        stroke: shape.strokeColor,
+        strokeWidth: shape.strokeWidth,
+        dash: shape.dash,
+        opacity: shape.opacity,
+        round: true,
+      });
+    }
+    page.operators.push("Q");
+  } else if (isPaintArrow(shape)) {
+    const { points } = shape;
+    const [x1, y1] = points.slice(-4, -2);
+    const [x2, y2] = points.slice(-2);
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+    const [length, halfWidth] = [shape.pointerLength, shape.pointerWidth / 2];
+    const head = [
+      [0, 0],
+      [-length, halfWidth],
+      [-length, -halfWidth],
+    ].flatMap(([x, y]) => [x2 + x * cos - y * sin, y2 + x * sin + y * cos]);
+
+    page.operators.push("q", getTransform(shape));
+    paintPath(page, getPolygonPath(points, false), {
+      stroke: shape.strokeColor,
+      strokeWidth: shape.strokeWidth,
+      dash: shape.dash,
+    });
+    paintPath(page, getPolygonPath(head, true), {
+      fill: shape.strokeColor,
+      stroke: shape.strokeColor,
+      strokeWidth: shape.strokeWidth,
+    });
+    page.operators.push("Q");
+  } else if (isPaintPolygon(shape)) {
+    page.operators.push("q", getTransform(shape));
+    paintPath(page, getPolygonPath(shape.points, true), {
+      fill: shape.fillColor,
+      stroke: shape.strokeColor,
+      strokeWidth: shape.strokeWidth,
+      dash: shape.dash,
+    });
+    page.operators.push("Q");
+  } else if (isPaintImage(shape)) {
+    const image = getLoadedImage(shape.src);
+    if (!image) return;
+
+    page.operators.push("q", getTransform(shape));
+    imageToPdf(page, image, shape, shape);
+    page.operators.push("Q");
+  } else if (isPaintMeasure(shape)) {
+    measureToPdf(page, shape, input.calibration);
+  } else if (isPaintGroup(shape)) {
+    page.operators.push("q", getTransform(shape));
+    shape.children
+      .filter((child) => child.visible)
+      .forEach((child) => shapeToPdf(page, child, input));
+    page.operators.push("Q");
+  }
+}
+
+function buildPdf(objects: (string | Uint8Array)[][]) {
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? textToBytes(chunk) : chunk;
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+
+  write("%PDF-1.4\n");
+  const offsets = objects.map((parts, objectIdx) => {
+    const objectOffset = offset;
+    write(`${objectIdx + 1} 0 obj\n`);
+    parts.forEach(write);
+    write("\nendobj\n");
+    return objectOffset;
+  });
+
+  const xrefOffset = offset;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((objectOffset) => {
+    write(`${String(objectOffset).padStart(10, "0")} 00000 n \n`);
+  });
+  write(
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  return new Blob(chunks, { type: "application/pdf" });
+}
+
+function getStream(dictionary: string, data: Uint8Array) {
+  return [
+    `<< ${dictionary} /Length ${data.length} >>\nstream\n`,
+    data,
+    "\nendstream",
+  ];
+}
+
+/**
+ * Builds a single-page PDF of the export box with every shape drawn as PDF
+ * paths and text, so annotations stay sharp at any zoom. Only images, the
+ * background included, are embedded as pixels. No PDF library is needed:
+ * text uses the standard fonts and JPEG data is embedded as is.
+ */
+export function exportPdf(input: SvgExportInput) {
+  const {
+    box,
+    documentSize,
+    bgImg,
+    background = DEFAULT_BACKGROUND,
+    shapes,
+  } = input;
+  const pageWidth = box.width * POINTS_PER_PIXEL;
+  const pageHeight = box.height * POINTS_PER_PIXEL;
+  const page: PdfPage = {
+    // Flip the page so that y points down, and move the box to the origin.
+    operators: [
+      `${formatNumbers(
+        POINTS_PER_PIXEL,
+        0,
+        0,
+        -POINTS_PER_PIXEL,
+        0,
+        pageHeight
+      )} cm`,
+      `1 0 0 1 ${formatNumbers(-box.x, -box.y)} cm`,
+    ],
+    fonts: new Map(),
+    opacities: new Map(),
+    images: [],
+  };
+
+  if (bgImg) {
+    const { x, y, ...size } = getBackgroundPlacement(
+      bgImg,
+      background,
+      documentSize
+    );
+    const radians = (background.rotation * Math.PI) / 180;
+    const [cos, sin] = [Math.cos(radians), Math.sin(radians)];
+    page.operators.push(
+      "q",
+      `${formatNumbers(cos, sin, -sin, cos, x, y)} cm`,
+      `1 0 0 1 ${formatNumbers(-size.width / 2, -size.height / 2)} cm`
+    );
+    imageToPdf(page, bgImg, size, background);
+    page.operators.push("Q");
+  }
+
+  shapes
+    .filter((shape) => shape.visible)
+    .forEach((shape) => shapeToPdf(page, shape, input));
+
+  // Objects 1 to 4 are fixed, resources follow in the order listed here.
+  const resourceObjects: (string | Uint8Array)[][] = [];
+  const addObject = (parts: (string | Uint8Array)[]) => {
+    resourceObjects.push(parts);
+    return `${4 + resourceObjects.length} 0 R`;
+  };
+
+  const fontEntries = Array.from(page.fonts).map(
+    ([baseFont, name]) =>
+      `/${name} ${addObject([
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} ` +
+          "/Encoding /WinAnsiEncoding >>",
+      ])}`
+  );
+  const opacityEntries = Array.from(page.opacities).map(([key, name]) => {
+    const [fillOpacity, strokeOpacity] = key.split(" ");
+    return `/${name} ${addObject([
+      `<< /Type /ExtGState /ca ${fillOpacity} /CA ${strokeOpacity} >>`,
+    ])}`;
+  });
+  const imageEntries = page.images.map((image, imageIdx) => {
+    const size = `/Width ${image.width} /Height ${image.height}`;
+    const mask = image.alpha
+      ? ` /SMask ${addObject(
+          getStream(
+            `/Type /XObject /Subtype /Image ${size} ` +
+              "/ColorSpace /DeviceGray /BitsPerComponent 8",
+            image.alpha
+          )
+        )}`
+      : "";
+
+    return `/Im${imageIdx} ${addObject(
+      getStream(
+        `/Type /XObject /Subtype /Image ${size} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode${mask}`,
+        image.jpeg
+      )
+    )}`;
+  });
+
+  const content = textToBytes(page.operators.join("\n"));
+  const objects: (string | Uint8Array)[][] = [
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    ["<< /Type /Pages /Kids [3 0 R] /Count 1 >>"],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumbers(
+        pageWidth,
+        pageHeight
+      )}] ` +
+        `/Resources << /Font << ${fontEntries.join(" ")} >> ` +
+        `/ExtGState << ${opacityEntries.join(" ")} >> ` +
+        `/XObject << ${imageEntries.join(" ")} >> >> /Contents 4 0 R >>`,
+    ],
+    getStream("", content),
+    ...resourceObjects,
+  ];
+
+  return buildPdf(objects);
+}
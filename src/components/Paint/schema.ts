@@ -0,0 +1,538 @@
+import { v4 as uuidv4 } from "uuid";
+import { BackgroundImage, Calibration, PaintShape } from ".";
+import {
+  DEFAULT_BACKGROUND,
+  DEFAULT_CALIBRATION,
+  DEFAULT_DOCUMENT_SIZE,
+  DEFAULT_TEXT_STYLE,
+  isPaintGroup,
+  LENGTH_UNITS,
+} from "./func";
+
+/**
+ * Version 1 is the original unversioned format; it carried no `version` field
+ * and shapes had no rotation, stroke width, dash or text styling. Version 2
+ * documents had no size and were always 1024x768. Version 3 shapes had a
+ * `readonly` flag instead of `locked` and could not be hidden. Version 4
+ * kept only the source and rotation of the background image, which was drawn
+ * at its natural size. Version 5 documents had no calibration and were
+ * measured in pixels. Version 6 lines did not record whether
+ * they were drawn freehand.
+ */
+export const DOCUMENT_VERSION = 7;
+
+export type SerializedDocument = {
+  version: typeof DOCUMENT_VERSION;
+  width: number;
+  height: number;
+  background?: BackgroundImage & { src: string };
+  calibration: Calibration;
+  shapes: PaintShape[];
+};
+
+export type ValidationError = { path: string; message: string };
+
+export type ParseDocumentResult =
+  | { ok: true; document: SerializedDocument }
+  | { ok: false; errors: ValidationError[] };
+
+type FieldRule = "number" | "string" | "boolean" | "number[]" | string[];
+
+const COMMON_FIELDS: { [field: string]: FieldRule } = {
+  key: "string",
+  x: "number",
+  y: "number",
+  rotation: "number",
+  locked: "boolean",
+  visible: "boolean",
+};
+
+const IMAGE_ADJUSTMENT_FIELDS: { [field: string]: FieldRule } = {
+  flipX: "boolean",
+  flipY: "boolean",
+  brightness: "number",
+  contrast: "number",
+};
+
+const BACKGROUND_FIELDS: { [field: string]: FieldRule } = {
+  ...IMAGE_ADJUSTMENT_FIELDS,
+  src: "string",
+  placement: ["FIT", "FILL", "ACTUAL"],
+  rotation: "number",
+};
+
+const CALIBRATION_FIELDS: { [field: string]: FieldRule } = {
+  unit: LENGTH_UNITS,
+  unitsPerPixel: "number",
+};
+
+const SHAPE_FIELDS: {
+  [type in PaintShape["type"]]: { [field: string]: FieldRule };
+} = {
+  RECT: {
+    width: "number",
+    height: "number",
+    strokeColor: "string",
+    fillColor: "string",
+    strokeWidth: "number",
+    dash: "number[]",
+  },
+  ELLIPSE: {
+    radiusX: "number",
+    radiusY: "number",
+    strokeColor: "string",
+    fillColor: "string",
+    strokeWidth: "number",
+    dash: "number[]",
+  },
+  TEXT: {
+    width: "number",
+    color: "string",
+    text: "string",
+    fontFamily: "string",
+    fontSize: "number",
+    bold: "boolean",
+    italic: "boolean",
+    underline: "boolean",
+    align: ["left", "center", "right"],
+    lineHeight: "number",
+    backgroundColor: "string",
+    padding: "number",
+    outlineColor: "string",
+    outlineWidth: "number",
+  },
+  LINE: {
+    points: "number[]",
+    strokeColor: "string",
+    strokeWidth: "number",
+    dash: "number[]",
+    opacity: "number",
+    tension: "number",
+    freehand: "boolean",
+  },
+  ARROW: {
+    points: "number[]",
+    strokeColor: "string",
+    strokeWidth: "number",
+    dash: "number[]",
+    pointerLength: "number",
+    pointerWidth: "number",
+  },
+  POLYGON: {
+    points: "number[]",
+    strokeColor: "string",
+    fillColor: "string",
+    strokeWidth: "number",
+    dash: "number[]",
+  },
+  // Children are validated as shapes of their own.
+  GROUP: {},
+  IMAGE: {
+    ...IMAGE_ADJUSTMENT_FIELDS,
+    width: "number",
+    height: "number",
+    src: "string",
+  },
+  MEASURE: {
+    points: "number[]",
+    strokeColor: "string",
+    strokeWidth: "number",
+  },
+};
+
+export function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function checkField(value: unknown, rule: FieldRule): string | undefined {
+  if (Array.isArray(rule)) {
+    return typeof value === "string" && rule.includes(value)
+      ? undefined
+      : `must be one of ${rule.join(", ")}`;
+  }
+
+  switch (rule) {
+    case "number":
+      return isFiniteNumber(value) ? undefined : "must be a number";
+    case "string":
+      return typeof value === "string" ? undefined : "must be a string";
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "must be a boolean";
+    case "number[]":
+      return Array.isArray(value) && value.every(isFiniteNumber)
+        ? undefined
+        : "must be an array of numbers";
+  }
+}
+
+function validateFields(
+  data: { [key: string]: unknown },
+  fields: { [field: string]: FieldRule },
+  path: string
+) {
+  const errors: ValidationError[] = [];
+  Object.keys(fields).forEach((field) => {
+    const message = checkField(data[field], fields[field]);
+    if (message) errors.push({ path: `${path}.${field}`, message });
+  });
+
+  return errors;
+}
+
+/** Crops are optional, but must lie within the image when they are set. */
+function validateCrop(crop: unknown, path: string): ValidationError[] {
+  if (crop === undefined) return [];
+  if (!isRecord(crop)) return [{ path, message: "must be an object" }];
+
+  const errors: ValidationError[] = [];
+  ["x", "y"].forEach((field) => {
+    const value = crop[field];
+    if (!isFiniteNumber(value) || value < 0) {
+      errors.push({
+        path: `${path}.${field}`,
+        message: "must be a number of at least 0",
+      });
+    }
+  });
+  ["width", "height"].forEach((field) => {
+    const value = crop[field];
+    if (!isFiniteNumber(value) || value <= 0) {
+      errors.push({
+        path: `${path}.${field}`,
+        message: "must be a positive number",
+      });
+    }
+  });
+
+  return errors;
+}
+
+/** Pen pressure is optional, but when set there is one for every point. */
+function validatePressures(
+  pressures: unknown,
+  points: unknown,
+  path: string
+): ValidationError[] {
+  if (pressures === undefined) return [];
+  if (
+    !Array.isArray(pressures) ||
+    !pressures.every(
+      (pressure) => isFiniteNumber(pressure) && pressure >= 0 && pressure <= 1
+    )
+  ) {
+    return [{ path, message: "must be an array of numbers from 0 to 1" }];
+  }
+  if (Array.isArray(points) && pressures.length * 2 !== points.length) {
+    return [{ path, message: "must hold one value for every point" }];
+  }
+
+  return [];
+}
+
+export function validateShape(shape: unknown, path: string) {
+  const errors: ValidationError[] = [];
+  if (!isRecord(shape)) {
+    return [{ path, message: "must be an object" }];
+  }
+
+  const type = shape.type as PaintShape["type"];
+  // Own keys only, so that names such as "toString" are not shape types.
+  if (!Object.prototype.hasOwnProperty.call(SHAPE_FIELDS, type)) {
+    return [
+      {
+        path: `${path}.type`,
+        message: `must be one of ${Object.keys(SHAPE_FIELDS).join(", ")}`,
+      },
+    ];
+  }
+
+  errors.push(
+    ...validateFields(shape, { ...COMMON_FIELDS, ...SHAPE_FIELDS[type] }, path)
+  );
+
+  const points = shape.points;
+  if (Array.isArray(points) && points.length % 2 !== 0) {
+    errors.push({
+      path: `${path}.points`,
+      message: "must hold x and y pairs",
+    });
+  }
+
+  // Measurements are always a single segment.
+  if (type === "MEASURE" && Array.isArray(points) && points.length !== 4) {
+    errors.push({
+      path: `${path}.points`,
+      message: "must hold exactly two points",
+    });
+  }
+
+  if (type === "IMAGE") {
+    errors.push(...validateCrop(shape.crop, `${path}.crop`));
+  }
+
+  if (type === "LINE") {
+    errors.push(
+      ...validatePressures(shape.pressures, points, `${path}.pressures`)
+    );
+  }
+
+  if (type === "GROUP") {
+    if (!Array.isArray(shape.children)) {
+      errors.push({ path: `${path}.children`, message: "must be an array" });
+    } else {
+      shape.children.forEach((child, childIdx) => {
+        errors.push(...validateShape(child, `${path}.children[${childIdx}]`));
+      });
+    }
+  }
+
+  return errors;
+}
+
+export function validateDocument(data: unknown): ValidationError[] {
+  if (!isRecord(data)) {
+    return [{ path: "", message: "must be an object" }];
+  }
+
+  const errors: ValidationError[] = [];
+  if (data.version !== DOCUMENT_VERSION) {
+    errors.push({ path: "version", message: `must be ${DOCUMENT_VERSION}` });
+  }
+  ["width", "height"].forEach((field) => {
+    const value = data[field];
+    if (!isFiniteNumber(value) || value <= 0) {
+      errors.push({ path: field, message: "must be a positive number" });
+    }
+  });
+  if (data.background !== undefined) {
+    if (!isRecord(data.background)) {
+      errors.push({ path: "background", message: "must be an object" });
+    } else {
+      errors.push(
+        ...validateFields(data.background, BACKGROUND_FIELDS, "background"),
+        ...validateCrop(data.background.crop, "background.crop")
+      );
+    }
+  }
+
+  if (!isRecord(data.calibration)) {
+    errors.push({ path: "calibration", message: "must be an object" });
+  } else {
+    errors.push(
+      ...validateFields(data.calibration, CALIBRATION_FIELDS, "calibration")
+    );
+    const { unitsPerPixel } = data.calibration;
+    if (isFiniteNumber(unitsPerPixel) && unitsPerPixel <= 0) {
+      errors.push({
+        path: "calibration.unitsPerPixel",
+        message: "must be a positive number",
+      });
+    }
+  }
+
+  if (!Array.isArray(data.shapes)) {
+    errors.push({ path: "shapes", message: "must be an array" });
+  } else {
+    data.shapes.forEach((shape, shapeIdx) => {
+      errors.push(...validateShape(shape, `shapes[${shapeIdx}]`));
+    });
+  }
+
+  return errors;
+}
+
+function migrateV1Shape(shape: unknown) {
+  if (!isRecord(shape)) return shape;
+
+  const migrated: { [key: string]: unknown } = { rotation: 0, ...shape };
+  if (migrated.type === "TEXT") {
+    return { ...DEFAULT_TEXT_STYLE, ...migrated };
+  }
+
+  return { strokeWidth: 1, dash: [], ...migrated };
+}
+
+function migrateV3Shape(shape: unknown) {
+  if (!isRecord(shape)) return shape;
+
+  const { readonly, ...migrated } = shape;
+  return { locked: readonly, visible: true, ...migrated };
+}
+
+/** Straight lines always had exactly two points and no tension. */
+function migrateV6Shape(shape: unknown): unknown {
+  if (!isRecord(shape)) return shape;
+
+  if (shape.type === "LINE") {
+    const { points, tension } = shape;
+    return {
+      freehand: !Array.isArray(points) || points.length !== 4 || tension !== 0,
+      ...shape,
+    };
+  }
+  if (shape.type === "GROUP" && Array.isArray(shape.children)) {
+    return { ...shape, children: shape.children.map(migrateV6Shape) };
+  }
+  return shape;
+}
+
+/**
+ * Upgrades older documents to the current version. Anything that is not
+ * recognizable is passed through for the validator to report.
+ */
+export function migrateDocument(data: unknown): unknown {
+  if (!isRecord(data)) return data;
+
+  let migrated = data;
+  if (migrated.version === undefined) {
+    migrated = {
+      bgImgRotation: 0,
+      ...migrated,
+      version: 2,
+      shapes: Array.isArray(migrated.shapes)
+        ? migrated.shapes.map(migrateV1Shape)
+        : migrated.shapes,
+    };
+  }
+  if (migrated.version === 2) {
+    migrated = { ...DEFAULT_DOCUMENT_SIZE, ...migrated, version: 3 };
+  }
+  if (migrated.version === 3) {
+    migrated = {
+      ...migrated,
+      version: 4,
+      shapes: Array.isArray(migrated.shapes)
+        ? migrated.shapes.map(migrateV3Shape)
+        : migrated.shapes,
+    };
+  }
+  if (migrated.version === 4) {
+    const { bgImgSrc, bgImgRotation, ...rest } = migrated;
+    migrated = { ...rest, version: 5 };
+    if (bgImgSrc !== undefined) {
+      migrated.background = {
+        ...DEFAULT_BACKGROUND,
+        placement: "ACTUAL",
+        src: bgImgSrc,
+        rotation: bgImgRotation,
+      };
+    }
+  }
+  if (migrated.version === 5) {
+    migrated = { calibration: DEFAULT_CALIBRATION, ...migrated, version: 6 };
+  }
+  if (migrated.version === 6) {
+    migrated = {
+      ...migrated,
+      version: 7,
+      shapes: Array.isArray(migrated.shapes)
+        ? migrated.shapes.map(migrateV6Shape)
+        : migrated.shapes,
+    };
+  }
+
+  return migrated;
+}
+
+/**
+ * Gives every shape whose key was already used by an earlier shape a fresh
+ * key, e.g. when a document was assembled by hand from copied fragments.
+ * Children of groups share one set of keys with the top-level shapes.
+ */
+export function dedupeShapeKeys(
+  shapes: PaintShape[],
+  seenKeys = new Set<string>()
+): PaintShape[] {
+  return shapes.map((shape) => {
+    let newShape = seenKeys.has(shape.key)
+      ? { ...shape, key: uuidv4() }
+      : shape;
+    seenKeys.add(newShape.key);
+
+    if (isPaintGroup(newShape)) {
+      newShape = {
+        ...newShape,
+        children: dedupeShapeKeys(newShape.children, seenKeys),
+      };
+    }
+    return newShape;
+  });
+}
+
+export function parseDocument(json: string): ParseDocumentResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return {
+      ok: false,
+      errors: [{ path: "", message: `invalid JSON: ${(e as Error).message}` }],
+    };
+  }
+
+  const migrated = migrateDocument(data);
+  const errors = validateDocument(migrated);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const document = migrated as SerializedDocument;
+  return {
+    ok: true,
+    document: { ...document, shapes: dedupeShapeKeys(document.shapes) },
+  };
+}
+
+export const CLIPBOARD_FORMAT = "konvajs-example/shapes";
+
+export function serializeShapesForClipboard(shapes: PaintShape[]) {
+  return JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    version: DOCUMENT_VERSION,
+    shapes,
+  });
+}
+
+/**
+ * Returns the shapes stored by `serializeShapesForClipboard`, upgraded to the
+ * current version, or undefined when the clipboard holds something else or
+ * the shapes are invalid.
+ */
+export function parseShapesFromClipboard(
+  text: string
+): PaintShape[] | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (!isRecord(data) || data.format !== CLIPBOARD_FORMAT) return undefined;
+
+  // Shapes copied before the clipboard was versioned go through every
+  // migration, which leaves newer shapes as they are.
+  const migrated = migrateDocument({
+    version: data.version,
+    shapes: data.shapes,
+  });
+  const shapes = isRecord(migrated) ? migrated.shapes : undefined;
+  if (!Array.isArray(shapes)) return undefined;
+
+  const errors = shapes.flatMap((shape, shapeIdx) =>
+    validateShape(shape, `shapes[${shapeIdx}]`)
+  );
+  return errors.length > 0 ? undefined : (shapes as PaintShape[]);
+}
+
+export function serializeDocument(
+  document: Omit<SerializedDocument, "version">
+) {
+  const serialized: SerializedDocument = {
+    version: DOCUMENT_VERSION,
+    ...document,
+  };
+
+  return JSON.stringify(serialized);
+}
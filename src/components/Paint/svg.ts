@@ -0,0 +1,406 @@
+import {
+  BackgroundImage,
+  Box,
+  Calibration,
+  ImageAdjustments,
+  PaintMeasure,
+  PaintShape,
+  PaintText,
+  Size,
+} from ".";
+import { getBackgroundPlacement } from "./export";
+import {
+  DEFAULT_BACKGROUND,
+  DEFAULT_CALIBRATION,
+  formatLength,
+  getFontStyle,
+  getLineWidths,
+  getMeasureLength,
+  getStrokeOutline,
+  isPaintArrow,
+  isPaintEllipse,
+  isPaintGroup,
+  isPaintImage,
+  isPaintLine,
+  isPaintMeasure,
+  isPaintPolygon,
+  isPaintRect,
+  isPaintText,
+} from "./func";
+import { getLoadedImage } from "./images";
+
+export type TextLayout = { lines: string[]; width: number; height: number };
+
+export type SvgExportInput = {
+  /** The part of the stage that becomes the SVG viewport. */
+  box: Box;
+  documentSize: Size;
+  bgImg?: HTMLImageElement;
+  background?: BackgroundImage;
+  shapes: PaintShape[];
+  /** Units for the labels of dimension lines. */
+  calibration?: Calibration;
+  /**
+   * Returns how Konva wrapped a text shape. Without it only explicit line
+   * breaks are kept.
+   */
+  getTextLayout?: (shape: PaintText) => TextLayout | undefined;
+};
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toAttrs(attrs: { [name: string]: string | number | undefined }) {
+  return Object.keys(attrs)
+    .filter((name) => attrs[name] !== undefined && attrs[name] !== "")
+    .map((name) => `${name}="${escapeXml(String(attrs[name]))}"`)
+    .join(" ");
+}
+
+function getTransform(shape: PaintShape) {
+  return `translate(${shape.x} ${shape.y}) rotate(${shape.rotation})`;
+}
+
+function getStrokeAttrs(shape: { strokeWidth: number; dash: number[] }) {
+  return {
+    "stroke-width": shape.strokeWidth,
+    "stroke-dasharray":
+      shape.dash.length > 0 ? shape.dash.join(" ") : undefined,
+  };
+}
+
+function getControlPoints([x0, y0, x1, y1, x2, y2]: number[], tension: number) {
+  const d01 = Math.hypot(x1 - x0, y1 - y0);
+  const d12 = Math.hypot(x2 - x1, y2 - y1);
+  const fa = (tension * d01) / (d01 + d12);
+  const fb = (tension * d12) / (d01 + d12);
+
+  return [
+    x1 - fa * (x2 - x0),
+    y1 - fa * (y2 - y0),
+    x1 + fb * (x2 - x0),
+    y1 + fb * (y2 - y0),
+  ];
+}
+
+/**
+ * Builds path data for an open line the same way Konva draws one, so curved
+ * freehand strokes look identical.
+ */
+export function getLinePath(points: number[], tension: number) {
+  if (points.length < 2) return "";
+
+  const path = [`M ${points[0]} ${points[1]}`];
+  if (tension === 0 || points.length <= 4) {
+    for (let idx = 2; idx < points.length; idx += 2) {
+      path.push(`L ${points[idx]} ${points[idx + 1]}`);
+    }
+    return path.join(" ");
+  }
+
+  const tp: number[] = [];
+  for (let idx = 2; idx < points.length - 2; idx += 2) {
+    const cp = getControlPoints(points.slice(idx - 2, idx + 4), tension);
+    if (isNaN(cp[0])) continue;
+    tp.push(cp[0], cp[1], points[idx], points[idx + 1], cp[2], cp[3]);
+  }
+
+  path.push(`Q ${tp[0]} ${tp[1]} ${tp[2]} ${tp[3]}`);
+  for (let idx = 4; idx < tp.length - 2; idx += 6) {
+    path.push(`C ${tp.slice(idx, idx + 6).join(" ")}`);
+  }
+  path.push(
+    `Q ${tp[tp.length - 2]} ${tp[tp.length - 1]} ${points[points.length - 2]} ${
+      points[points.length - 1]
+    }`
+  );
+
+  return path.join(" ");
+}
+
+function textToSvg(shape: PaintText, layout?: TextLayout) {
+  const lines = layout?.lines ?? shape.text.split("\n");
+  const width = layout?.width ?? shape.width;
+  const lineHeight = shape.fontSize * shape.lineHeight;
+  const height =
+    layout?.height ?? lines.length * lineHeight + shape.padding * 2;
+
+  let anchorX = shape.padding;
+  let textAnchor = "start";
+  if (shape.align === "center") {
+    anchorX = width / 2;
+    textAnchor = "middle";
+  } else if (shape.align === "right") {
+    anchorX = width - shape.padding;
+    textAnchor = "end";
+  }
+
+  const fontStyle = getFontStyle(shape);
+  const tspans = lines
+    .map(
+      (line, lineIdx) =>
+        `<tspan ${toAttrs({
+          x: anchorX,
+          y: shape.padding + lineIdx * lineHeight + lineHeight / 2,
+        })}>${escapeXml(line)}</tspan>`
+    )
+    .join("");
+
+  const background = shape.backgroundColor
+    ? `<rect ${toAttrs({ width, height, fill: shape.backgroundColor })}/>`
+    : "";
+
+  return `<g transform="${getTransform(shape)}">${background}<text ${toAttrs({
+    "font-family": shape.fontFamily,
+    "font-size": shape.fontSize,
+    "font-style": fontStyle.includes("italic") ? "italic" : undefined,
+    "font-weight": fontStyle.includes("bold") ? "bold" : undefined,
+    "text-decoration": shape.underline ? "underline" : undefined,
+    "text-anchor": textAnchor,
+    "dominant-baseline": "middle",
+    fill: shape.color,
+    stroke: shape.outlineWidth > 0 ? shape.outlineColor : undefined,
+    "stroke-width": shape.outlineWidth > 0 ? shape.outlineWidth : undefined,
+    "paint-order": "stroke",
+  })}>${tspans}</text></g>`;
+}
+
+/**
+ * Konva's brighten adds to every channel and its contrast scales the channels
+ * about the middle, which a linear transfer function reproduces.
+ */
+function getFilterSvg(id: string, { brightness, contrast }: ImageAdjustments) {
+  const slope = Math.pow((contrast + 100) / 100, 2);
+  const intercept = slope * brightness + 0.5 - 0.5 * slope;
+  const func = toAttrs({ type: "linear", slope, intercept });
+
+  return `<filter ${toAttrs({
+    id,
+    "color-interpolation-filters": "sRGB",
+  })}><feComponentTransfer><feFuncR ${func}/><feFuncG ${func}/><feFuncB ${func}/></feComponentTransfer></filter>`;
+}
+
+/**
+ * Draws the cropped part of an image into `width` by `height`. Cropping needs
+ * the natural size of the image, without it the whole image is stretched.
+ */
+function imageToSvg(
+  id: string,
+  src: string,
+  size: Size,
+  adjustments: ImageAdjustments,
+  image?: Size
+) {
+  const { width, height } = size;
+  const { crop, flipX, flipY, brightness, contrast } = adjustments;
+  const filtered = brightness !== 0 || contrast !== 0;
+  const filterId = `filter-${id}`;
+
+  const content =
+    crop && image
+      ? `<svg ${toAttrs({
+          width,
+          height,
+          viewBox: `${crop.x} ${crop.y} ${crop.width} ${crop.height}`,
+          preserveAspectRatio: "none",
+        })}><image ${toAttrs({
+          href: src,
+          width: image.width,
+          height: image.height,
+        })}/></svg>`
+      : `<image ${toAttrs({
+          href: src,
+          width,
+          height,
+          preserveAspectRatio: "none",
+        })}/>`;
+
+  return `${filtered ? getFilterSvg(filterId, adjustments) : ""}<g ${toAttrs({
+    transform: `translate(${flipX ? width : 0} ${flipY ? height : 0}) scale(${
+      flipX ? -1 : 1
+    } ${flipY ? -1 : 1})`,
+    filter: filtered ? `url(#${filterId})` : undefined,
+  })}>${content}</g>`;
+}
+
+function measureToSvg(shape: PaintMeasure, calibration: Calibration) {
+  const [x1, y1, x2, y2] = shape.points;
+  const length = getMeasureLength(shape);
+  const [tickX, tickY] =
+    length > 0 ? [(-(y2 - y1) / length) * 5, ((x2 - x1) / length) * 5] : [0, 5];
+  const path = [
+    `M ${x1} ${y1} L ${x2} ${y2}`,
+    `M ${x1 - tickX} ${y1 - tickY} L ${x1 + tickX} ${y1 + tickY}`,
+    `M ${x2 - tickX} ${y2 - tickY} L ${x2 + tickX} ${y2 + tickY}`,
+  ].join(" ");
+
+  return `<g transform="${getTransform(shape)}"><path ${toAttrs({
+    d: path,
+    fill: "none",
+    stroke: shape.strokeColor,
+    "stroke-width": shape.strokeWidth,
+  })}/><text ${toAttrs({
+    transform: `translate(${(x1 + x2) / 2} ${
+      (y1 + y2) / 2
+    }) rotate(${-shape.rotation})`,
+    y: -7,
+    "font-family": "Arial",
+    "font-size": 12,
+    "text-anchor": "middle",
+    fill: shape.strokeColor,
+    stroke: "white",
+    "stroke-width": 3,
+    "paint-order": "stroke",
+  })}>${escapeXml(formatLength(length, calibration))}</text></g>`;
+}
+
+export function shapeToSvg(
+  shape: PaintShape,
+  getTextLayout?: SvgExportInput["getTextLayout"],
+  calibration = DEFAULT_CALIBRATION
+): string {
+  if (isPaintRect(shape)) {
+    return `<rect ${toAttrs({
+      x: Math.min(0, shape.width),
+      y: Math.min(0, shape.height),
+      width: Math.abs(shape.width),
+      height: Math.abs(shape.height),
+      transform: getTransform(shape),
+      fill: shape.fillColor,
+      stroke: shape.strokeColor,
+      ...getStrokeAttrs(shape),
+    })}/>`;
+  } else if (isPaintEllipse(shape)) {
+    return `<ellipse ${toAttrs({
+      rx: shape.radiusX,
+      ry: shape.radiusY,
+      transform: getTransform(shape),
+      fill: shape.fillColor,
+      stroke: shape.strokeColor,
+      ...getStrokeAttrs(shape),
+    })}/>`;
+  } else if (isPaintText(shape)) {
+    return textToSvg(shape, getTextLayout?.(shape));
+  } else if (isPaintLine(shape)) {
+    const widths = getLineWidths(shape);
+    if (widths) {
+      return `<polygon ${toAttrs({
+        points: getStrokeOutline(shape.points, widths).join(" "),
+        transform: getTransform(shape),
+        fill: shape.strokeColor,
+        opacity: shape.opacity,
+      })}/>`;
+    }
+
+    return `<path ${toAttrs({
+      d: getLinePath(shape.points, shape.tension),
+      transform: getTransform(shape),
+      fill: "none",
+      stroke: shape.strokeColor,
+      opacity: shape.opacity,
+      "stroke-linecap": "round",
+      "stroke-linejoin": "round",
+      ...getStrokeAttrs(shape),
+    })}/>`;
+  } else if (isPaintArrow(shape)) {
+    const { points } = shape;
+    const [x1, y1] = points.slice(-4, -2);
+    const [x2, y2] = points.slice(-2);
+    const angle = (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI;
+    const [length, halfWidth] = [shape.pointerLength, shape.pointerWidth / 2];
+
+    return `<g transform="${getTransform(shape)}"><path ${toAttrs({
+      d: getLinePath(points, 0),
+      fill: "none",
+      stroke: shape.strokeColor,
+      ...getStrokeAttrs(shape),
+    })}/><polygon ${toAttrs({
+      points: `0,0 ${-length},${halfWidth} ${-length},${-halfWidth}`,
+      transform: `translate(${x2} ${y2}) rotate(${angle})`,
+      fill: shape.strokeColor,
+      stroke: shape.strokeColor,
+      "stroke-width": shape.strokeWidth,
+    })}/></g>`;
+  } else if (isPaintPolygon(shape)) {
+    return `<polygon ${toAttrs({
+      points: shape.points.join(" "),
+      transform: getTransform(shape),
+      fill: shape.fillColor,
+      stroke: shape.strokeColor,
+      ...getStrokeAttrs(shape),
+    })}/>`;
+  } else if (isPaintImage(shape)) {
+    return `<g transform="${getTransform(shape)}">${imageToSvg(
+      shape.key,
+      shape.src,
+      shape,
+      shape,
+      getLoadedImage(shape.src)
+    )}</g>`;
+  } else if (isPaintMeasure(shape)) {
+    return measureToSvg(shape, calibration);
+  } else if (isPaintGroup(shape)) {
+    const children = shape.children
+      .filter((child) => child.visible)
+      .map((child) => shapeToSvg(child, getTextLayout, calibration));
+    return `<g transform="${getTransform(shape)}">${children.join("")}</g>`;
+  }
+
+  return "";
+}
+
+/**
+ * Serializes the drawing into a standalone SVG document with native SVG
+ * elements for every shape and the background image embedded as a data URL.
+ */
+export function exportSvg({
+  box,
+  documentSize,
+  bgImg,
+  background = DEFAULT_BACKGROUND,
+  shapes,
+  calibration,
+  getTextLayout,
+}: SvgExportInput) {
+  const elements: string[] = [];
+
+  if (bgImg) {
+    const { x, y, ...size } = getBackgroundPlacement(
+      bgImg,
+      background,
+      documentSize
+    );
+    elements.push(
+      `<g transform="translate(${x} ${y}) rotate(${
+        background.rotation
+      }) translate(${-size.width / 2} ${-size.height / 2})">${imageToSvg(
+        "background",
+        bgImg.src,
+        size,
+        background,
+        bgImg
+      )}</g>`
+    );
+  }
+
+  shapes.forEach((shape) => {
+    if (shape.visible) {
+      elements.push(shapeToSvg(shape, getTextLayout, calibration));
+    }
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" ${toAttrs({
+    width: box.width,
+    height: box.height,
+    viewBox: `${box.x} ${box.y} ${box.width} ${box.height}`,
+  })}>
+${elements.join("\n")}
+</svg>
+`;
+}
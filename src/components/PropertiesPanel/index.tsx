@@ -0,0 +1,261 @@
+import { ChangeEventHandler, ReactNode } from "react";
+
+import Checkbox from "../Checkbox";
+import ColorPicker from "../ColorPicker";
+import ImageAdjustmentControls from "../ImageAdjustmentControls";
+import NumberInput from "../NumberInput";
+import { Calibration, ImageAdjustments, PaintShape } from "../Paint";
+import {
+  cropPaintImage,
+  DEFAULT_CALIBRATION,
+  FONT_FAMILIES,
+  formatLength,
+  getMeasureLength,
+  isPaintArrow,
+  isPaintEllipse,
+  isPaintImage,
+  isPaintLine,
+  isPaintMeasure,
+  isPaintPolygon,
+  isPaintRect,
+  isPaintText,
+} from "../Paint/func";
+import { getLoadedImage } from "../Paint/images";
+
+const Field = ({ label, children }: { label: string; children: ReactNode }) => {
+  return (
+    <label className="flex items-center justify-between gap-x-2">
+      <span>{label}</span>
+      {children}
+    </label>
+  );
+};
+
+const PropertiesPanel = ({
+  shapes,
+  calibration = DEFAULT_CALIBRATION,
+  onChange,
+}: {
+  /** The selected shapes. Fields are only editable for a single shape. */
+  shapes: PaintShape[];
+  /** Units for the length of dimension lines. */
+  calibration?: Calibration;
+  /**
+   * Called with the whole updated shape and the name of the field that
+   * changed, so consecutive edits of one field can be merged.
+   */
+  onChange?: (changedShape: PaintShape, field: string) => void;
+}) => {
+  if (shapes.length !== 1) {
+    return (
+      <div className="w-72 p-2 border border-gray-300 text-gray-500">
+        {shapes.length <= 0
+          ? "Select a shape to edit its properties."
+          : `${shapes.length} shapes selected.`}
+      </div>
+    );
+  }
+
+  const shape = shapes[0];
+
+  function update<T extends PaintShape, K extends keyof T & string>(
+    shape: T,
+    field: K
+  ): (value: T[K]) => void {
+    return (value) => {
+      onChange?.({ ...shape, [field]: value }, field);
+    };
+  }
+
+  const handleTextChange: ChangeEventHandler<HTMLTextAreaElement> = (e) => {
+    if (isPaintText(shape)) update(shape, "text")(e.target.value);
+  };
+
+  const handleTextBackgroundChange = () => {
+    if (!isPaintText(shape)) return;
+
+    update(shape, "backgroundColor")(shape.backgroundColor ? "" : "#ffffff");
+  };
+
+  const handleImageAdjustmentsChange = (changes: Partial<ImageAdjustments>) => {
+    if (!isPaintImage(shape)) return;
+
+    const image = getLoadedImage(shape.src);
+    const { crop, ...otherChanges } = changes;
+    // Cropping resizes the shape so the image keeps its scale.
+    const croppedShape =
+      "crop" in changes && image ? cropPaintImage(shape, image, crop) : shape;
+    onChange?.(
+      { ...croppedShape, ...otherChanges },
+      Object.keys(changes).join()
+    );
+  };
+
+  // Fields are limited to those holding the type the input edits.
+  const numberField = <T extends PaintShape, K extends string>(
+    label: string,
+    shape: T & { [field in K]: number },
+    field: K,
+    options: { min?: number; max?: number; step?: number } = {}
+  ) => (
+    <Field label={label}>
+      <NumberInput
+        value={shape[field]}
+        onChange={(value) => onChange?.({ ...shape, [field]: value }, field)}
+        {...options}
+      />
+    </Field>
+  );
+
+  const checkboxField = <T extends PaintShape, K extends string>(
+    label: string,
+    shape: T & { [field in K]: boolean },
+    field: K
+  ) => (
+    <Field label={label}>
+      <Checkbox
+        checked={shape[field]}
+        onChange={(e) =>
+          onChange?.({ ...shape, [field]: e.target.checked }, field)
+        }
+      />
+    </Field>
+  );
+
+  const selectField = <T extends PaintShape, K extends string>(
+    label: string,
+    shape: T & { [field in K]: string },
+    field: K,
+    options: string[]
+  ) => (
+    <Field label={label}>
+      <select
+        className="w-40 border border-gray-500"
+        value={shape[field]}
+        onChange={(e) =>
+          onChange?.({ ...shape, [field]: e.target.value }, field)
+        }
+      >
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </Field>
+  );
+
+  const colorField = <T extends PaintShape, K extends string>(
+    label: string,
+    shape: T & { [field in K]: string },
+    field: K
+  ) => (
+    <ColorPicker
+      label={label}
+      color={shape[field]}
+      onChange={(value) => onChange?.({ ...shape, [field]: value }, field)}
+    />
+  );
+
+  const fields: ReactNode[] = [];
+  if (isPaintRect(shape)) {
+    fields.push(
+      numberField("Width", shape, "width", { min: 0 }),
+      numberField("Height", shape, "height", { min: 0 }),
+      colorField("Stroke", shape, "strokeColor"),
+      colorField("Fill", shape, "fillColor"),
+      numberField("Stroke width", shape, "strokeWidth", { min: 0 })
+    );
+  } else if (isPaintEllipse(shape)) {
+    fields.push(
+      numberField("Radius X", shape, "radiusX", { min: 0 }),
+      numberField("Radius Y", shape, "radiusY", { min: 0 }),
+      colorField("Stroke", shape, "strokeColor"),
+      colorField("Fill", shape, "fillColor"),
+      numberField("Stroke width", shape, "strokeWidth", { min: 0 })
+    );
+  } else if (isPaintText(shape)) {
+    fields.push(
+      numberField("Width", shape, "width", { min: 0 }),
+      selectField("Font", shape, "fontFamily", FONT_FAMILIES),
+      numberField("Font size", shape, "fontSize", { min: 1 }),
+      checkboxField("Bold", shape, "bold"),
+      checkboxField("Italic", shape, "italic"),
+      checkboxField("Underline", shape, "underline"),
+      selectField("Align", shape, "align", ["left", "center", "right"]),
+      numberField("Line height", shape, "lineHeight", { min: 0.5, step: 0.1 }),
+      colorField("Color", shape, "color"),
+      <Field label="Background">
+        <Checkbox
+          checked={!!shape.backgroundColor}
+          onChange={handleTextBackgroundChange}
+        />
+      </Field>,
+      ...(shape.backgroundColor
+        ? [colorField("Box", shape, "backgroundColor")]
+        : []),
+      numberField("Padding", shape, "padding", { min: 0 }),
+      colorField("Outline", shape, "outlineColor"),
+      numberField("Outline width", shape, "outlineWidth", { min: 0 }),
+      <Field label="Text">
+        <textarea
+          className="w-40 h-16 border border-gray-500"
+          value={shape.text}
+          onChange={handleTextChange}
+        />
+      </Field>
+    );
+  } else if (isPaintLine(shape)) {
+    fields.push(
+      colorField("Stroke", shape, "strokeColor"),
+      numberField("Stroke width", shape, "strokeWidth", { min: 0 }),
+      numberField("Opacity", shape, "opacity", { min: 0, max: 1, step: 0.1 }),
+      numberField("Tension", shape, "tension", { min: 0, max: 1, step: 0.1 })
+    );
+  } else if (isPaintArrow(shape)) {
+    fields.push(
+      colorField("Stroke", shape, "strokeColor"),
+      numberField("Stroke width", shape, "strokeWidth", { min: 0 }),
+      numberField("Head length", shape, "pointerLength", { min: 0 }),
+      numberField("Head width", shape, "pointerWidth", { min: 0 })
+    );
+  } else if (isPaintImage(shape)) {
+    fields.push(
+      numberField("Width", shape, "width", { min: 0 }),
+      numberField("Height", shape, "height", { min: 0 }),
+      <ImageAdjustmentControls
+        adjustments={shape}
+        image={getLoadedImage(shape.src)}
+        onChange={handleImageAdjustmentsChange}
+      />
+    );
+  } else if (isPaintMeasure(shape)) {
+    fields.push(
+      <Field label="Length">
+        <span>{formatLength(getMeasureLength(shape), calibration)}</span>
+      </Field>,
+      colorField("Stroke", shape, "strokeColor"),
+      numberField("Stroke width", shape, "strokeWidth", { min: 0 })
+    );
+  } else if (isPaintPolygon(shape)) {
+    fields.push(
+      colorField("Stroke", shape, "strokeColor"),
+      colorField("Fill", shape, "fillColor"),
+      numberField("Stroke width", shape, "strokeWidth", { min: 0 })
+    );
+  }
+
+  return (
+    <div className="w-72 p-2 border border-gray-300 flex flex-col gap-y-2">
+      <span className="font-bold">{shape.type}</span>
+      {numberField("X", shape, "x")}
+      {numberField("Y", shape, "y")}
+      {numberField("Rotation", shape, "rotation", { min: -360, max: 360 })}
+      {fields.map((field, fieldIdx) => (
+        <div key={fieldIdx}>{field}</div>
+      ))}
+    </div>
+  );
+};
+
+export default PropertiesPanel;
@@ -0,0 +1,76 @@
+import { useMemo } from "react";
+
+import {
+  formatKeys,
+  Keybinding,
+  useKeybindings,
+  useRegisteredKeybindings,
+} from "../Paint/keybindings";
+
+/** Lists the keyboard shortcuts of all registered actions by category. */
+const ShortcutHelp = ({ onClose }: { onClose?: VoidFunction }) => {
+  const bindings = useRegisteredKeybindings();
+
+  const closeBindings = useMemo<Keybinding[]>(
+    () => [
+      {
+        id: "close-shortcut-help",
+        title: "Close keyboard shortcuts",
+        category: "Help",
+        keys: ["Escape"],
+        run: () => onClose?.(),
+      },
+    ],
+    [onClose]
+  );
+  useKeybindings(closeBindings);
+
+  const categories: { [category: string]: Keybinding[] } = {};
+  bindings.forEach((binding) => {
+    if (binding.keys.length <= 0 || binding.id === "close-shortcut-help") {
+      return;
+    }
+    const category = categories[binding.category] || [];
+    categories[binding.category] = category;
+    category.push(binding);
+  });
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-center items-start pt-24 bg-black/30"
+      onPointerDown={onClose}
+    >
+      <div
+        className="w-[40rem] max-w-full max-h-[70vh] overflow-y-auto p-4 bg-white border border-gray-300 shadow-lg flex flex-col gap-y-4"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <span className="font-bold">Keyboard shortcuts</span>
+          <button type="button" className="text-gray-500" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-x-8 gap-y-4">
+          {Object.keys(categories).map((category) => (
+            <div key={category} className="flex flex-col gap-y-1">
+              <span className="font-bold">{category}</span>
+              {categories[category].map((binding) => (
+                <div
+                  key={binding.id}
+                  className="flex items-center justify-between gap-x-2"
+                >
+                  <span>{binding.title}</span>
+                  <kbd className="text-sm text-gray-500">
+                    {binding.keys.map(formatKeys).join(", ")}
+                  </kbd>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
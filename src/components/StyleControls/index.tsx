@@ -0,0 +1,93 @@
+import { ChangeEventHandler } from "react";
+
+import ColorPicker from "../ColorPicker";
+import NumberInput from "../NumberInput";
+import { PaintStyle } from "../Paint";
+import { DASH_PATTERNS } from "../Paint/func";
+
+const StyleControls = ({
+  style,
+  recentColors,
+  onChange,
+  onColorUsed,
+}: {
+  style: PaintStyle;
+  recentColors?: string[];
+  onChange?: (changes: Partial<PaintStyle>) => void;
+  onColorUsed?: (color: string) => void;
+}) => {
+  const handleStrokeColorChange = (strokeColor: string) => {
+    onChange?.({ strokeColor });
+  };
+
+  const handleFillColorChange = (fillColor: string) => {
+    onChange?.({ fillColor });
+  };
+
+  const handleFillOpacityChange: ChangeEventHandler<HTMLInputElement> = (e) => {
+    onChange?.({ fillOpacity: Number(e.target.value) });
+  };
+
+  const handleStrokeWidthChange = (strokeWidth: number) => {
+    onChange?.({ strokeWidth });
+  };
+
+  const handleDashChange: ChangeEventHandler<HTMLSelectElement> = (e) => {
+    onChange?.({ dash: DASH_PATTERNS[e.target.value] });
+  };
+
+  const dashName =
+    Object.keys(DASH_PATTERNS).find(
+      (name) => DASH_PATTERNS[name].join() === style.dash.join()
+    ) ?? "Solid";
+
+  return (
+    <div className="flex flex-col gap-y-2">
+      <ColorPicker
+        label="Stroke"
+        color={style.strokeColor}
+        recentColors={recentColors}
+        onChange={handleStrokeColorChange}
+        onColorUsed={onColorUsed}
+      />
+      <ColorPicker
+        label="Fill"
+        color={style.fillColor}
+        recentColors={recentColors}
+        onChange={handleFillColorChange}
+        onColorUsed={onColorUsed}
+      />
+      <div className="flex items-center gap-x-2">
+        <span>Fill opacity:</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={style.fillOpacity}
+          onChange={handleFillOpacityChange}
+        />
+        <span>Stroke width:</span>
+        <NumberInput
+          className="w-16"
+          min={0}
+          value={style.strokeWidth}
+          onChange={handleStrokeWidthChange}
+        />
+        <select
+          className="border border-gray-500"
+          value={dashName}
+          onChange={handleDashChange}
+        >
+          {Object.keys(DASH_PATTERNS).map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default StyleControls;
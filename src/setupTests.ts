@@ -3,3 +3,10 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+// jsdom has no canvas, which Konva draws on. The mock is set up again before
+// every test, as resetMocks clears its implementations.
+import { setupJestCanvasMock } from 'jest-canvas-mock';
+
+beforeEach(() => {
+  setupJestCanvasMock();
+});